@@ -1,66 +1,622 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Search, RefreshCw, Copy, Check, Download, BrainCircuit, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
-import { fetchBookSources } from './services/scraperService';
-import { analyzeTitles } from './services/geminiService';
-import { BookSource, ScrapeStatus, AnalysisResult } from './types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Search, RefreshCw, Copy, Check, Download, BrainCircuit, AlertCircle, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, ClipboardPaste, Globe, Layers, Combine, Settings, Database, HeartPulse, Tags, Star, ArchiveRestore, ShieldCheck, CopyMinus } from 'lucide-react';
+import { fetchBookSources, crawlBookSources, loadCachedBookSources } from './services/scraperService';
+import { recordSnapshot, getChangeMap, getCrawlScope } from './services/snapshotService';
+import { isWorking } from './services/healthService';
+import { needsInstall } from './services/backupService';
+import { removeRedundant } from './services/duplicateService';
+import { loadCachedQuality, GOOD_QUALITY, FAIR_QUALITY } from './services/lintService';
+import { SITE_ADAPTERS, getAdapter } from './services/siteAdapters';
+import { classifySources, getCachedClassifications, countTags } from './services/classificationService';
+import { parseQuery, matchSource, hasRankedTerms, needsSearchIndex } from './services/searchService';
+import { indexSources } from './services/workerClient';
+import { filterInSlices } from './services/taskQueue';
+import { readViewState, serializeViewState, isNavigation } from './services/viewState';
+import { applyDetails, loadCachedDetails, fetchDetailsBatch, queueDetails, getAutoLoadDetails, setAutoLoadDetails } from './services/detailService';
+import { getCollections, getCollection, subscribeCollections, toggleFavorite, FAVORITES_ID } from './services/collectionService';
+import { analyzeTitles, getAiSettings, subscribeAiSettings, AI_PROVIDER_LABELS } from './services/aiService';
+import { copyText } from './services/exportService';
+import { BookSource, ScrapeStatus, AnalysisResult, ScrapeResult, FetchMode, CrawlProgress, CrawlResult, SortOrder, ChangeKind, SnapshotDiff, SourceHealth, SourceClassification, SearchMatch, ViewState, PageInfo, FetchDiagnostics, SourceDetails, LegadoBackup, SourceInstallState, SourceQuality, DuplicateReport, CopyState } from './types';
 import { SourceCard } from './components/SourceCard';
+import { ManualImport } from './components/ManualImport';
+import { CrawlPanel, CrawlRange } from './components/CrawlPanel';
+import { MergePanel } from './components/MergePanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ChangeLog } from './components/ChangeLog';
+import { HealthCheckPanel } from './components/HealthCheckPanel';
+import { SelectionToolbar } from './components/SelectionToolbar';
+import { ImportLinkPanel } from './components/ImportLinkPanel';
+import { TagFilter } from './components/TagFilter';
+import { CollectionsPanel } from './components/CollectionsPanel';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { BackupComparePanel } from './components/BackupComparePanel';
+import { QualityPanel } from './components/QualityPanel';
+import { DuplicatesPanel } from './components/DuplicatesPanel';
+import { VirtualGrid } from './components/VirtualGrid';
+
+// Value each sort order compares; DEFAULT keeps listing (or relevance) order
+const SORT_KEYS: Record<SortOrder, ((source: BookSource, quality?: SourceQuality) => number | undefined) | null> = {
+  [SortOrder.DEFAULT]: null,
+  [SortOrder.NEWEST]: source => source.exactUpdatedAt ?? source.updatedAt,
+  [SortOrder.OLDEST]: source => source.exactUpdatedAt ?? source.updatedAt,
+  [SortOrder.DOWNLOADS]: source => source.downloads,
+  [SortOrder.LIKES]: source => source.likes,
+  [SortOrder.SOURCE_COUNT]: source => source.sourceCount,
+  [SortOrder.QUALITY]: (_source, quality) => quality?.score,
+};
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+// Compact "5 min ago" style label for cache ages
+const formatAge = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+};
 
 const App: React.FC = () => {
+  // Page, filters and selection start from the address bar so shared links reopen the same view
+  const [initialView] = useState(readViewState);
   const [sources, setSources] = useState<BookSource[]>([]);
   const [status, setStatus] = useState<ScrapeStatus>(ScrapeStatus.IDLE);
   const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchTerm, setSearchTerm] = useState(initialView.search);
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(initialView.search);
+  const [searchMatches, setSearchMatches] = useState<Map<string, SearchMatch>>(new Map());
+  const [sortOrder, setSortOrder] = useState<SortOrder>(initialView.sort);
+  const [withinDays, setWithinDays] = useState(initialView.withinDays); // 0 = any time
   const [filteredSources, setFilteredSources] = useState<BookSource[]>([]);
-  const [copiedAll, setCopiedAll] = useState(false);
+  const [copyAllState, setCopyAllState] = useState<CopyState>('idle');
+  const [mode, setMode] = useState<FetchMode>(initialView.mode);
+  const [adapterId, setAdapterId] = useState(getAdapter(initialView.site).id);
+  const adapter = getAdapter(adapterId);
+  // Preview, merge and health checks understand Legado book sources only
+  const isBookSourceAdapter = adapter.contentKind === 'bookSource';
+
+  // Selection State
+  // Keyed by jsonUrl: listing ids repeat across site adapters, which a collection can mix
+  const [selectedUrls, setSelectedUrls] = useState<Set<string>>(new Set());
+  // Ids from a shared link, applied once the sources they refer to have loaded
+  const pendingSelectionRef = useRef<string[] | null>(initialView.selected.length > 0 ? initialView.selected : null);
+  const [showMerge, setShowMerge] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showImportLinks, setShowImportLinks] = useState(false);
+
+  // Health Check State, kept across page changes so results aren't lost
+  const [health, setHealth] = useState<Map<string, SourceHealth>>(new Map());
+  const [showHealthCheck, setShowHealthCheck] = useState(false);
+  const [workingOnly, setWorkingOnly] = useState(initialView.workingOnly);
+
+  // Backup Comparison State, same lifetime as health results
+  const [backup, setBackup] = useState<LegadoBackup | null>(null);
+  const [installStates, setInstallStates] = useState<Map<string, SourceInstallState>>(new Map());
+  const [showBackupCompare, setShowBackupCompare] = useState(false);
+  const [notInstalledOnly, setNotInstalledOnly] = useState(false);
+
+  // Rule Quality State, filled from cached JSON and by explicit lint runs
+  const [quality, setQuality] = useState<Map<string, SourceQuality>>(new Map());
+  const qualityRef = useRef(quality); // Latest scores, for callbacks that only skip what's scored
+  qualityRef.current = quality;
+  const [showQuality, setShowQuality] = useState(false);
+  const [minQuality, setMinQuality] = useState(0);
+
+  // Duplicate Detection State
+  const [duplicates, setDuplicates] = useState<DuplicateReport | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [skipRedundant, setSkipRedundant] = useState(false);
   
   // Pagination State
-  const [currentPage, setCurrentPage] = useState(1);
+  const [currentPage, setCurrentPage] = useState(initialView.page);
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null);
+  // Last page count seen for this listing, kept while the next page loads
+  const [knownTotalPages, setKnownTotalPages] = useState<number | undefined>(undefined);
+  const [jumpPage, setJumpPage] = useState('');
+
+  // Cache State: set while showing a cached copy of the current page
+  const [cacheInfo, setCacheInfo] = useState<{ storedAt: number; refreshing: boolean; offline: boolean } | null>(null);
+  const fetchRequestRef = useRef(0);
+  // Attempt timeline of the last network request for the current page
+  const [diagnostics, setDiagnostics] = useState<FetchDiagnostics | null>(null);
+
+  // Crawl State
+  const [isCrawling, setIsCrawling] = useState(false);
+  const [crawlProgress, setCrawlProgress] = useState<CrawlProgress | null>(null);
+  const [crawlFailures, setCrawlFailures] = useState<CrawlResult['pagesFailed']>([]);
+  const crawlAbortRef = useRef<AbortController | null>(null);
+
+  // Change Tracking State: diff of the last completed crawl against the one before it
+  const [crawlDiff, setCrawlDiff] = useState<SnapshotDiff | null>(null);
+  const [changes, setChanges] = useState<Map<string, ChangeKind>>(new Map());
+  const [showOnlyNew, setShowOnlyNew] = useState(initialView.onlyNew);
+  const [showChangeLog, setShowChangeLog] = useState(false);
   
   // AI Analysis State
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
-  // Safely check for API key existence
-  const hasApiKey = typeof process !== 'undefined' && process.env && process.env.API_KEY;
+  // Per-source Classification State
+  const [classifications, setClassifications] = useState<Map<string, SourceClassification>>(new Map());
+  const [classifyProgress, setClassifyProgress] = useState<{ done: number; total: number } | null>(null);
+  const [activeTags, setActiveTags] = useState<Set<string>>(new Set(initialView.tags));
 
-  const handleFetch = useCallback(async (page: number) => {
-    setStatus(ScrapeStatus.LOADING);
+  // Favorites and Collections State
+  const [collections, setCollections] = useState(getCollections());
+  const [activeCollectionId, setActiveCollectionId] = useState(initialView.collection || FAVORITES_ID);
+  useEffect(() => subscribeCollections(() => setCollections(getCollections())), []);
+  const favoriteUrls = new Set(collections.find(c => c.id === FAVORITES_ID)?.sources.map(s => s.jsonUrl));
+
+  // Detail Page State
+  const [autoLoadDetails, setAutoLoadDetailsState] = useState(getAutoLoadDetails);
+  const [detailsProgress, setDetailsProgress] = useState<{ done: number; total: number } | null>(null);
+  const pendingDetailsRef = useRef(new Map<string, SourceDetails>());
+  const detailsFlushRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const detailsAbortRef = useRef<AbortController | null>(null);
+  // Listed sources already looked up in the detail cache. applyDetails keeps the objects it
+  // doesn't change, so only a new listing brings sources that haven't been looked up.
+  const cachedDetailsCheckedRef = useRef(new WeakSet<BookSource>());
+
+  const [aiSettings, setAiSettings] = useState(getAiSettings());
+  useEffect(() => subscribeAiSettings(() => setAiSettings(getAiSettings())), []);
+  const aiProviderLabel = AI_PROVIDER_LABELS[aiSettings.provider];
+
+  const applyPagination = (info?: PageInfo) => {
+    setPageInfo(info ?? null);
+    if (info?.totalPages) setKnownTotalPages(info.totalPages);
+  };
+
+  // Show a cached copy immediately when we have one, then revalidate it if stale.
+  // `force` skips the cached copy (but still falls back to it if the network fails).
+  const handleFetch = useCallback(async (page: number, force: boolean = false) => {
+    const requestId = ++fetchRequestRef.current;
     setError(null);
     setAnalysis(null);
-    setSources([]); // Clear previous sources to show loading state effectively
+    setDiagnostics(null);
+
+    const cached = await loadCachedBookSources(page, adapter);
+    if (requestId !== fetchRequestRef.current) return;
+
+    if (cached && !force) {
+      setSources(cached.result.data);
+      applyPagination(cached.result.pagination);
+      setStatus(ScrapeStatus.SUCCESS);
+      setCacheInfo({ storedAt: cached.storedAt, refreshing: !cached.fresh, offline: false });
+      if (cached.fresh) return;
+    } else {
+      setStatus(ScrapeStatus.LOADING);
+      setSources([]); // Clear previous sources to show loading state effectively
+      setPageInfo(null);
+      setCacheInfo(null);
+    }
 
-    const result = await fetchBookSources(page);
+    const result = await fetchBookSources(page, undefined, adapter);
+    if (requestId !== fetchRequestRef.current) return;
+    setDiagnostics(result.diagnostics ?? null);
 
     if (result.success) {
       setSources(result.data);
+      applyPagination(result.pagination);
+      setStatus(ScrapeStatus.SUCCESS);
+      setCacheInfo(null);
+    } else if (cached) {
+      // Network is unavailable; keep browsing the cached copy
+      setSources(cached.result.data);
+      applyPagination(cached.result.pagination);
       setStatus(ScrapeStatus.SUCCESS);
+      setCacheInfo({ storedAt: cached.storedAt, refreshing: false, offline: true });
     } else {
       setError(result.error || "Unknown error");
       setStatus(ScrapeStatus.ERROR);
     }
+  }, [adapter]);
+
+  // Typing only re-filters once the user pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Pinyin indexes are built in the worker as soon as sources arrive, before anyone searches
+  useEffect(() => {
+    indexSources(sources);
+  }, [sources]);
+
+  // Filter logic. Runs in slices so long lists don't freeze the tab; a newer run cancels an older one.
+  useEffect(() => {
+    const controller = new AbortController();
+    const terms = parseQuery(debouncedSearchTerm);
+    const matches = new Map<string, SearchMatch>();
+    const cutoff = withinDays > 0 ? Date.now() - withinDays * 24 * 60 * 60 * 1000 : null;
+    const requiredTags = Array.from(activeTags);
+
+    const run = async () => {
+      if (needsSearchIndex(terms)) await indexSources(sources);
+      if (controller.signal.aborted) return;
+
+      const filtered = await filterInSlices(sources, (source: BookSource) => {
+        if (
+          (cutoff !== null && (source.updatedAt === undefined || source.updatedAt < cutoff)) ||
+          (showOnlyNew && changes.get(source.jsonUrl) !== ChangeKind.NEW) ||
+          (workingOnly && !isWorking(health.get(source.jsonUrl))) ||
+          (notInstalledOnly && !needsInstall(installStates.get(source.jsonUrl))) ||
+          (minQuality > 0 && (quality.get(source.jsonUrl)?.score ?? -1) < minQuality) ||
+          !requiredTags.every(tag => classifications.get(source.jsonUrl)?.tags.includes(tag))
+        ) return false;
+        const match = matchSource(source, terms, classifications.get(source.jsonUrl)?.tags);
+        if (match) matches.set(source.jsonUrl, match);
+        return !!match;
+      }, controller.signal);
+      if (!filtered) return;
+
+      // Sources missing the sort key (undated, or no details yet) always sink to the bottom
+      const sortKey = SORT_KEYS[sortOrder];
+      if (sortKey) {
+        const direction = sortOrder === SortOrder.OLDEST ? 1 : -1;
+        filtered.sort((a, b) => {
+          const aValue = sortKey(a, quality.get(a.jsonUrl));
+          const bValue = sortKey(b, quality.get(b.jsonUrl));
+          if (aValue === undefined) return bValue === undefined ? 0 : 1;
+          if (bValue === undefined) return -1;
+          return (aValue - bValue) * direction;
+        });
+      } else if (hasRankedTerms(terms)) {
+        // Best matches first when searching; ties keep listing order
+        filtered.sort((a, b) => (matches.get(b.jsonUrl)?.score ?? 0) - (matches.get(a.jsonUrl)?.score ?? 0));
+      }
+      setFilteredSources(filtered);
+      setSearchMatches(matches);
+    };
+
+    run();
+    return () => controller.abort();
+  }, [debouncedSearchTerm, sources, sortOrder, withinDays, showOnlyNew, changes, workingOnly, health, notInstalledOnly, installStates, minQuality, quality, activeTags, classifications]);
+
+  // Detail pages fetched earlier are in the cache; put their fields back on fresh listings
+  useEffect(() => {
+    const checked = cachedDetailsCheckedRef.current;
+    const missing = sources.filter(source => !source.detailsFetchedAt && !checked.has(source));
+    if (missing.length === 0) return;
+    missing.forEach(source => checked.add(source));
+    // Matched by originalUrl, so details for a listing that has since been replaced are dropped
+    loadCachedDetails(missing).then(details => setSources(prev => applyDetails(prev, details)));
+  }, [sources]);
+
+  // Any source JSON already downloaded (merge, health check, preview...) can be linted for free
+  const refreshCachedQuality = useCallback(async (list: BookSource[]) => {
+    const unscored = list.filter(source => !qualityRef.current.has(source.jsonUrl));
+    if (unscored.length === 0) return;
+    const results = await loadCachedQuality(unscored);
+    if (results.size > 0) setQuality(prev => new Map([...prev, ...results]));
   }, []);
 
-  // Filter logic
+  // Only a new listing changes the sources listed; details filling in on cards needs no other pass
+  const listingKey = useMemo(() => sources.map(source => source.jsonUrl).join('\n'), [sources]);
   useEffect(() => {
-    const lowerTerm = searchTerm.toLowerCase();
-    const filtered = sources.filter(
-      source => 
-        source.title.toLowerCase().includes(lowerTerm) || 
-        source.id.includes(lowerTerm)
-    );
-    setFilteredSources(filtered);
-  }, [searchTerm, sources]);
+    if (isBookSourceAdapter && sources.length > 0) refreshCachedQuality(sources);
+  }, [listingKey, isBookSourceAdapter, refreshCachedQuality]);
+
+  // Lazily fetched details arrive one by one; apply them in small batches
+  const handleCardVisible = useCallback((source: BookSource) => {
+    if (!autoLoadDetails) return;
+    queueDetails(source, adapter).then(details => {
+      if (!details) return;
+      pendingDetailsRef.current.set(source.originalUrl, details);
+      if (detailsFlushRef.current) return;
+      detailsFlushRef.current = setTimeout(() => {
+        const batch = pendingDetailsRef.current;
+        pendingDetailsRef.current = new Map();
+        detailsFlushRef.current = null;
+        setSources(prev => applyDetails(prev, batch));
+      }, 300);
+    });
+  }, [autoLoadDetails, adapter]);
+
+  // Exports ask for every missing detail page up front. Resolves to null when cancelled.
+  const handleLoadDetails = async (list: BookSource[]): Promise<BookSource[] | null> => {
+    const missing = list.filter(source => !source.detailsFetchedAt);
+    if (missing.length === 0) return list;
+    detailsAbortRef.current?.abort();
+    const controller = new AbortController();
+    detailsAbortRef.current = controller;
+
+    const details = await fetchDetailsBatch(missing, adapter, (done, total) => {
+      if (!controller.signal.aborted) setDetailsProgress({ done, total });
+    }, controller.signal);
+    // Whatever arrived before a cancel is still worth keeping on the cards
+    setSources(prev => applyDetails(prev, details));
+    if (detailsAbortRef.current !== controller) return null;
+    detailsAbortRef.current = null;
+    setDetailsProgress(null);
+    return controller.signal.aborted ? null : applyDetails(list, details);
+  };
+
+  const handleCancelDetails = () => {
+    detailsAbortRef.current?.abort();
+    detailsAbortRef.current = null;
+    setDetailsProgress(null);
+  };
+
+  const handleKeepChange = (clusterId: string, jsonUrl: string) => {
+    setDuplicates(prev => prev && {
+      ...prev,
+      clusters: prev.clusters.map(cluster => cluster.id === clusterId ? { ...cluster, keepUrl: jsonUrl } : cluster),
+    });
+  };
+
+  const handleAutoLoadDetailsChange = (enabled: boolean) => {
+    setAutoLoadDetails(enabled);
+    setAutoLoadDetailsState(enabled);
+  };
+
+  // Previously classified sources get their tags back without another API call.
+  // Tags from another provider or model are hidden once the settings change.
+  useEffect(() => {
+    setClassifications(getCachedClassifications(sources));
+  }, [sources, aiSettings]);
+
+  // Shared links name sources by id, which is all that fits in a URL; match them to what's loaded
+  const sourcesRef = useRef(sources);
+  sourcesRef.current = sources;
+  const getUrlsForIds = (ids: string[]): Set<string> => {
+    const wanted = new Set(ids);
+    return new Set(sourcesRef.current.filter(s => wanted.has(s.id)).map(s => s.jsonUrl));
+  };
+
+  // Drop selections that no longer refer to a loaded source
+  useEffect(() => {
+    const urls = new Set(sources.map(s => s.jsonUrl));
+    const pending = pendingSelectionRef.current;
+    if (pending && sources.length > 0) {
+      pendingSelectionRef.current = null;
+      setSelectedUrls(getUrlsForIds(pending));
+      return;
+    }
+    setSelectedUrls(prev => {
+      const next = new Set(Array.from(prev).filter(url => urls.has(url)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [sources]);
+
+  const handleToggleSelect = useCallback((jsonUrl: string) => {
+    setSelectedUrls(prev => {
+      const next = new Set(prev);
+      if (next.has(jsonUrl)) {
+        next.delete(jsonUrl);
+      } else {
+        next.add(jsonUrl);
+      }
+      return next;
+    });
+  }, []);
+
+  // Selection helpers operate on what's currently visible
+  const handleSelectAll = () => {
+    setSelectedUrls(prev => new Set([...prev, ...filteredSources.map(s => s.jsonUrl)]));
+  };
+
+  const handleSelectNone = () => {
+    setSelectedUrls(new Set());
+  };
+
+  const handleInvertSelection = () => {
+    setSelectedUrls(prev => {
+      const next = new Set(prev);
+      filteredSources.forEach(s => {
+        if (next.has(s.jsonUrl)) {
+          next.delete(s.jsonUrl);
+        } else {
+          next.add(s.jsonUrl);
+        }
+      });
+      return next;
+    });
+  };
+
+  // Batch actions work on the selection, or on everything visible when nothing is selected
+  const selectedSources = sources.filter(s => selectedUrls.has(s.jsonUrl));
+  const batchSources = selectedSources.length > 0 ? selectedSources : filteredSources;
+  // Copy All and exports can leave out all but one source of each duplicate cluster
+  const exportSources = skipRedundant ? removeRedundant(batchSources, duplicates) : batchSources;
+  const copySources = skipRedundant ? removeRedundant(filteredSources, duplicates) : filteredSources;
 
   // Initial fetch on mount or page change
   useEffect(() => {
+    if (mode !== FetchMode.AUTO) return;
     handleFetch(currentPage);
-  }, [handleFetch, currentPage]);
+  }, [handleFetch, currentPage, mode]);
+
+  // A collection is browsed like any other result set and follows edits made to it
+  useEffect(() => {
+    if (mode !== FetchMode.COLLECTION) return;
+    const load = () => {
+      setSources(getCollection(activeCollectionId)?.sources ?? []);
+      setError(null);
+      setStatus(ScrapeStatus.SUCCESS);
+    };
+    load();
+    return subscribeCollections(load);
+  }, [mode, activeCollectionId]);
+
+  const handleManualImport = (result: ScrapeResult) => {
+    setAnalysis(null);
+    if (result.success) {
+      setSources(result.data);
+      setError(null);
+      setStatus(ScrapeStatus.SUCCESS);
+    } else {
+      setSources([]);
+      setError(result.error || "Unknown error");
+      setStatus(ScrapeStatus.ERROR);
+    }
+  };
+
+  const handleStartCrawl = async (range: CrawlRange) => {
+    crawlAbortRef.current?.abort();
+    const controller = new AbortController();
+    crawlAbortRef.current = controller;
+
+    setIsCrawling(true);
+    setCrawlProgress(null);
+    setCrawlFailures([]);
+    setCrawlDiff(null);
+    setChanges(new Map());
+    setShowOnlyNew(false);
+    setStatus(ScrapeStatus.LOADING);
+    setError(null);
+    setAnalysis(null);
+    setSources([]);
+
+    const result = await crawlBookSources({
+      ...range,
+      signal: controller.signal,
+      onProgress: setCrawlProgress,
+      adapter,
+    });
+
+    // A newer crawl or a mode switch has taken over
+    if (crawlAbortRef.current !== controller) return;
+    crawlAbortRef.current = null;
+    setIsCrawling(false);
+    setCrawlFailures(result.pagesFailed);
+
+    if (result.success) {
+      setSources(result.data);
+      setStatus(ScrapeStatus.SUCCESS);
+
+      // Partial crawls would show everything beyond the cancel point, or on a failed page, as removed
+      if (!result.cancelled && result.pagesFailed.length === 0) {
+        const diff = await recordSnapshot(getCrawlScope(adapter.id, range.startPage, range.endPage), result.data);
+        setCrawlDiff(diff);
+        setChanges(getChangeMap(diff));
+      }
+    } else {
+      setError(result.cancelled ? "Crawl cancelled before any sources were found." : result.error || "Unknown error");
+      setStatus(ScrapeStatus.ERROR);
+    }
+  };
+
+  const handleCancelCrawl = () => {
+    crawlAbortRef.current?.abort();
+  };
+
+  // Drop everything tied to the current result set and cancel in-flight work
+  const resetResults = () => {
+    fetchRequestRef.current++;
+    setCacheInfo(null);
+    setDiagnostics(null);
+    crawlAbortRef.current?.abort();
+    crawlAbortRef.current = null;
+    handleCancelDetails();
+    setIsCrawling(false);
+    setCrawlProgress(null);
+    setCrawlFailures([]);
+    setCrawlDiff(null);
+    setChanges(new Map());
+    setShowOnlyNew(false);
+    setActiveTags(new Set());
+    setSources([]);
+    setAnalysis(null);
+    setError(null);
+    setStatus(ScrapeStatus.IDLE);
+  };
+
+  const handleModeChange = (newMode: FetchMode) => {
+    if (newMode === mode) return;
+    resetResults();
+    setMode(newMode);
+  };
+
+  const handleAdapterChange = (newAdapterId: string) => {
+    if (newAdapterId === adapterId) return;
+    resetResults();
+    // Results belong to the previous listing
+    setHealth(new Map());
+    setWorkingOnly(false);
+    setInstallStates(new Map());
+    setNotInstalledOnly(false);
+    setQuality(new Map());
+    setMinQuality(0);
+    setDuplicates(null);
+    setSkipRedundant(false);
+    setShowMerge(false);
+    setShowHealthCheck(false);
+    setShowBackupCompare(false);
+    setShowQuality(false);
+    setShowDuplicates(false);
+    setShowImportLinks(false);
+    setCurrentPage(1);
+    setPageInfo(null);
+    setKnownTotalPages(undefined);
+    setAdapterId(newAdapterId);
+  };
+
+  // Mirror the shareable view in the address bar
+  const currentView: ViewState = {
+    mode,
+    site: adapterId,
+    page: currentPage,
+    search: searchTerm,
+    sort: sortOrder,
+    withinDays,
+    onlyNew: showOnlyNew,
+    workingOnly,
+    tags: Array.from(activeTags),
+    selected: pendingSelectionRef.current ?? selectedSources.map(s => s.id),
+    collection: activeCollectionId,
+  };
+  const viewQuery = serializeViewState(currentView);
+  const lastViewRef = useRef<ViewState>(initialView);
+  const restoringViewRef = useRef(false);
+
+  useEffect(() => {
+    const previous = lastViewRef.current;
+    lastViewRef.current = currentView;
+    const restoring = restoringViewRef.current;
+    restoringViewRef.current = false;
+    if (viewQuery === window.location.search) return;
+
+    const url = `${window.location.pathname}${viewQuery}${window.location.hash}`;
+    if (!restoring && isNavigation(previous, currentView)) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [viewQuery]);
+
+  // Back/forward: apply the view stored in the URL without pushing a new entry
+  useEffect(() => {
+    const handlePopState = () => {
+      const view = readViewState();
+      const navigated = isNavigation(lastViewRef.current, view);
+      restoringViewRef.current = true;
+
+      handleAdapterChange(getAdapter(view.site).id);
+      handleModeChange(view.mode);
+      setCurrentPage(view.page);
+      setSearchTerm(view.search);
+      setSortOrder(view.sort);
+      setWithinDays(view.withinDays);
+      setShowOnlyNew(view.onlyNew);
+      setWorkingOnly(view.workingOnly);
+      setActiveTags(new Set(view.tags));
+      setActiveCollectionId(view.collection || FAVORITES_ID);
+      // A different page means new sources, so the selection has to wait for them
+      if (navigated && view.selected.length > 0) {
+        pendingSelectionRef.current = view.selected;
+      } else {
+        setSelectedUrls(getUrlsForIds(view.selected));
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [mode, adapterId]);
 
-  const handleCopyAll = () => {
-    const allLinks = filteredSources.map(s => s.jsonUrl).join('\n');
-    navigator.clipboard.writeText(allLinks);
-    setCopiedAll(true);
-    setTimeout(() => setCopiedAll(false), 2000);
+  const handleCopyAll = async () => {
+    const allLinks = copySources.map(s => s.jsonUrl).join('\n');
+    setCopyAllState(await copyText(allLinks) ? 'copied' : 'failed');
+    setTimeout(() => setCopyAllState('idle'), 2000);
   };
 
   const handleAnalyze = async () => {
@@ -73,29 +629,70 @@ const App: React.FC = () => {
     if (result) {
       setAnalysis(result);
     } else {
-      // Small graceful fallback if no key or error
-      setError("AI Analysis failed. Check console or API Key configuration.");
+      // Small graceful fallback if the provider is misconfigured or errored
+      setError(`AI Analysis failed. Check console or the ${aiProviderLabel} settings.`);
       setTimeout(() => setError(null), 3000);
     }
     setIsAnalyzing(false);
   };
 
+  const handleClassify = async () => {
+    if (sources.length === 0) return;
+
+    const result = await classifySources(sources, (progress) => {
+      setClassifyProgress({ done: progress.done, total: progress.total });
+      if (progress.failedBatches > 0) {
+        setError(`Some titles could not be classified. Check console or the ${aiProviderLabel} settings.`);
+        setTimeout(() => setError(null), 3000);
+      }
+    });
+    setClassifications(result);
+    setClassifyProgress(null);
+  };
+
+  const handleToggleTag = (tag: string) => {
+    setActiveTags(prev => {
+      const next = new Set(prev);
+      if (next.has(tag)) {
+        next.delete(tag);
+      } else {
+        next.add(tag);
+      }
+      return next;
+    });
+  };
+
+  // Real bounds when the listing told us; otherwise Next stays enabled until a page has no "next" link
+  const totalPages = pageInfo?.totalPages ?? knownTotalPages;
+  const isLastPage = totalPages !== undefined
+    ? currentPage >= totalPages
+    : !!pageInfo && pageInfo.nextPage === undefined && currentPage >= (pageInfo.highestLinkedPage ?? 0);
+
   const handlePageChange = (newPage: number) => {
-    if (newPage < 1) return;
+    if (newPage < 1 || (totalPages !== undefined && newPage > totalPages)) return;
     setCurrentPage(newPage);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = parseInt(jumpPage, 10);
+    if (Number.isNaN(target)) return;
+    handlePageChange(Math.min(Math.max(1, target), totalPages ?? target));
+    setJumpPage('');
+  };
+
   // Helper to generate page numbers for the pagination UI
   const getPageNumbers = () => {
     const totalButtons = 5;
-    // Ensure we start at 1, and try to center the current page
-    let startPage = Math.max(1, currentPage - Math.floor(totalButtons / 2));
+    // Center the current page, but never run past either end of the listing
+    const lastPage = totalPages ?? Infinity;
+    const startPage = Math.max(1, Math.min(currentPage - Math.floor(totalButtons / 2), lastPage - totalButtons + 1));
     
     // Create array of page numbers
     const pages = [];
-    for (let i = 0; i < totalButtons; i++) {
-        pages.push(startPage + i);
+    for (let i = startPage; i < startPage + totalButtons && i <= lastPage; i++) {
+        pages.push(i);
     }
     return pages;
   };
@@ -115,56 +712,194 @@ const App: React.FC = () => {
                 <h1 className="text-base sm:text-xl font-bold text-gray-900 leading-tight">Book Source Extractor</h1>
                 <p className="text-[10px] sm:text-xs text-gray-500 hidden sm:block">Auto-generate JSON links from yckceo.sbs</p>
               </div>
+              <select
+                value={adapterId}
+                onChange={(e) => handleAdapterChange(e.target.value)}
+                className="ml-auto md:ml-2 px-2 py-1 text-xs sm:text-sm border border-gray-300 rounded-lg bg-white text-gray-700 focus:outline-none focus:border-blue-500"
+                title={adapter.description}
+              >
+                {SITE_ADAPTERS.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
             </div>
 
             {/* Actions Section */}
             <div className="flex items-center gap-2 sm:gap-3 overflow-x-auto no-scrollbar pb-1 sm:pb-0">
-              {hasApiKey && sources.length > 0 && (
+              <div className="flex items-center bg-gray-100 rounded-lg p-0.5 shrink-0">
+                {[
+                  { value: FetchMode.AUTO, label: 'Page', icon: Globe, title: 'Fetch one page at a time through proxies' },
+                  { value: FetchMode.CRAWL, label: 'Crawl', icon: Layers, title: 'Fetch a range of pages or the whole catalog' },
+                  { value: FetchMode.MANUAL, label: 'Manual', icon: ClipboardPaste, title: 'Paste or upload HTML manually' },
+                  { value: FetchMode.COLLECTION, label: 'Saved', icon: Star, title: 'Favorites and named collections' },
+                ].map(({ value, label, icon: Icon, title }) => (
+                  <button
+                    key={value}
+                    onClick={() => handleModeChange(value)}
+                    title={title}
+                    className={`flex items-center gap-1 px-2 py-1 sm:px-3 sm:py-1.5 text-xs sm:text-sm font-medium rounded-md transition-colors whitespace-nowrap ${
+                      mode === value ? 'bg-white text-blue-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <Icon className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                    <span>{label}</span>
+                  </button>
+                ))}
+              </div>
+
+              {sources.length > 0 && (
                  <button
                  onClick={handleAnalyze}
                  disabled={isAnalyzing}
                  className="flex items-center gap-1.5 px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm font-medium text-purple-700 bg-purple-50 rounded-lg hover:bg-purple-100 disabled:opacity-50 transition-colors whitespace-nowrap"
-                 title="Use Gemini to analyze titles"
+                 title={`Use ${aiProviderLabel} to analyze titles`}
                >
                  <BrainCircuit className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />
                  <span>{isAnalyzing ? '...' : 'Analyze'}</span>
                </button>
               )}
+
+              {sources.length > 0 && (
+                 <button
+                 onClick={handleClassify}
+                 disabled={classifyProgress !== null}
+                 className="flex items-center gap-1.5 px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm font-medium text-purple-700 bg-purple-50 rounded-lg hover:bg-purple-100 disabled:opacity-50 transition-colors whitespace-nowrap"
+                 title={`Use ${aiProviderLabel} to tag every source by genre`}
+               >
+                 <Tags className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />
+                 <span>{classifyProgress ? `${classifyProgress.done}/${classifyProgress.total}` : 'Classify'}</span>
+               </button>
+              )}
              
+              {mode === FetchMode.AUTO && (
               <button
-                onClick={() => handleFetch(currentPage)}
+                onClick={() => handleFetch(currentPage, true)}
                 disabled={status === ScrapeStatus.LOADING}
                 className="flex items-center gap-1.5 px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors whitespace-nowrap"
               >
                 <RefreshCw className={`w-4 h-4 sm:w-[18px] sm:h-[18px] ${status === ScrapeStatus.LOADING ? 'animate-spin' : ''}`} />
                 <span>Refresh<span className="hidden sm:inline"> Page</span></span>
               </button>
+              )}
               
+              <button
+                onClick={() => setShowHealthCheck(true)}
+                disabled={batchSources.length === 0 || !isBookSourceAdapter}
+                className="flex items-center gap-1.5 px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors whitespace-nowrap"
+                title="Check whether the sites inside selected (or all filtered) sources respond"
+              >
+                <HeartPulse className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />
+                <span>Health</span>
+              </button>
+
+              <button
+                onClick={() => setShowMerge(true)}
+                disabled={batchSources.length === 0 || !isBookSourceAdapter}
+                className="flex items-center gap-1.5 px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors whitespace-nowrap"
+                title="Merge the JSON of selected (or all filtered) sources into one Legado file"
+              >
+                <Combine className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />
+                <span>Merge<span className="hidden sm:inline"> JSON</span>{selectedSources.length > 0 ? ` (${selectedSources.length})` : ''}</span>
+              </button>
+
+              <button
+                onClick={() => setShowQuality(true)}
+                disabled={batchSources.length === 0 || !isBookSourceAdapter}
+                className="flex items-center gap-1.5 px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors whitespace-nowrap"
+                title="Lint the rules of selected (or all filtered) sources and score their quality"
+              >
+                <ShieldCheck className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />
+                <span>Lint</span>
+              </button>
+
+              <button
+                onClick={() => setShowDuplicates(true)}
+                disabled={batchSources.length < 2}
+                className="flex items-center gap-1.5 px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors whitespace-nowrap"
+                title="Find duplicate and repackaged sources among selected (or all filtered) sources"
+              >
+                <CopyMinus className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />
+                <span>Dupes</span>
+              </button>
+
+              <button
+                onClick={() => setShowBackupCompare(true)}
+                disabled={batchSources.length === 0 || !isBookSourceAdapter}
+                className="flex items-center gap-1.5 px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors whitespace-nowrap"
+                title="Compare selected (or all filtered) sources with your Legado bookSource.json backup"
+              >
+                <ArchiveRestore className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />
+                <span>Backup</span>
+              </button>
+
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className={`flex items-center px-2 py-1.5 sm:py-2 text-gray-600 border rounded-lg transition-colors shrink-0 ${
+                  showSettings ? 'bg-gray-100 border-gray-400' : 'bg-white border-gray-300 hover:bg-gray-50'
+                }`}
+                title="Settings"
+              >
+                <Settings className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />
+              </button>
+
               <button
                 onClick={handleCopyAll}
                 disabled={filteredSources.length === 0}
-                className="flex items-center gap-1.5 px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors shadow-sm whitespace-nowrap"
+                className={`flex items-center gap-1.5 px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm font-medium text-white rounded-lg disabled:opacity-50 transition-colors shadow-sm whitespace-nowrap ${
+                  copyAllState === 'failed' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
               >
-                {copiedAll ? <Check className="w-4 h-4 sm:w-[18px] sm:h-[18px]" /> : <Copy className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />}
-                <span>{copiedAll ? 'Copied!' : 'Copy All'}</span>
+                {copyAllState === 'copied' ? <Check className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />
+                  : copyAllState === 'failed' ? <AlertCircle className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />
+                  : <Copy className="w-4 h-4 sm:w-[18px] sm:h-[18px]" />}
+                <span>{copyAllState === 'copied' ? 'Copied!' : copyAllState === 'failed' ? 'Copy failed' : 'Copy All'}</span>
               </button>
             </div>
           </div>
 
           {/* Search Bar - only show if we have data */}
           {sources.length > 0 && (
-            <div className="mt-2 sm:mt-4 relative">
+            <div className="mt-2 sm:mt-4 flex gap-2">
+            <div className="relative flex-1">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                 <Search className="w-4 h-4 sm:w-[18px] sm:h-[18px] text-gray-400" />
                 </div>
                 <input
                 type="text"
-                placeholder="Filter by title or ID..."
+                placeholder="Search title, pinyin (bqg) or ID..."
+                title={'Search by title, pinyin, initials or ID. Also supports:\n  id:1000..2000  id:>500\n  date:>2026-10-01  date:2026-10-01..2026-10-15\n  tag:漫画\n  downloads:>1000  likes:>50  sources:>20\n  by:uploader\n  -word (exclude)\n  "exact phrase"'}
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="block w-full pl-9 sm:pl-10 pr-3 py-1.5 sm:py-2 text-sm border border-gray-300 rounded-lg leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
                 />
             </div>
+            <select
+                value={withinDays}
+                onChange={(e) => setWithinDays(Number(e.target.value))}
+                className="px-2 py-1.5 sm:py-2 text-xs sm:text-sm border border-gray-300 rounded-lg bg-white text-gray-700 focus:outline-none focus:border-blue-500"
+                title="Only show sources updated recently"
+            >
+                <option value={0}>Any time</option>
+                <option value={1}>Last 24 hours</option>
+                <option value={3}>Last 3 days</option>
+                <option value={7}>Last 7 days</option>
+                <option value={30}>Last 30 days</option>
+            </select>
+            <select
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                className="px-2 py-1.5 sm:py-2 text-xs sm:text-sm border border-gray-300 rounded-lg bg-white text-gray-700 focus:outline-none focus:border-blue-500"
+                title="Sort order"
+            >
+                <option value={SortOrder.DEFAULT}>Page order</option>
+                <option value={SortOrder.NEWEST}>Newest first</option>
+                <option value={SortOrder.OLDEST}>Oldest first</option>
+                <option value={SortOrder.DOWNLOADS}>Most downloads</option>
+                <option value={SortOrder.LIKES}>Most likes</option>
+                <option value={SortOrder.SOURCE_COUNT}>Most sources inside</option>
+                <option value={SortOrder.QUALITY}>Best quality</option>
+            </select>
+            </div>
           )}
         </div>
       </header>
@@ -172,20 +907,153 @@ const App: React.FC = () => {
       {/* Main Content */}
       <main className="flex-1 max-w-7xl mx-auto px-2 sm:px-6 lg:px-8 py-4 sm:py-6 w-full">
         
+        {/* Settings */}
+        {showSettings && (
+          <SettingsPanel onClose={() => setShowSettings(false)} />
+        )}
+
+        {/* Crawl Controls */}
+        {mode === FetchMode.CRAWL && (
+          <CrawlPanel
+            isCrawling={isCrawling}
+            progress={crawlProgress}
+            failures={crawlFailures}
+            onStart={handleStartCrawl}
+            onCancel={handleCancelCrawl}
+            onShowHistory={() => setShowChangeLog(true)}
+          />
+        )}
+
+        {/* Change Log */}
+        {mode === FetchMode.CRAWL && showChangeLog && (
+          <ChangeLog onClose={() => setShowChangeLog(false)} />
+        )}
+
+        {/* Changes since the previous crawl */}
+        {mode === FetchMode.CRAWL && crawlDiff && crawlDiff.previousTakenAt !== undefined && (
+          <div className="mb-4 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs bg-white border border-gray-200 rounded-lg px-3 py-2">
+            <span className="text-gray-500">Since {new Date(crawlDiff.previousTakenAt).toLocaleString()}:</span>
+            <span className="text-green-700 font-medium">{crawlDiff.added.length} new</span>
+            <span className="text-blue-700 font-medium">{crawlDiff.updated.length} updated</span>
+            <span className="text-red-700 font-medium">{crawlDiff.removed.length} removed</span>
+            <label className="ml-auto flex items-center gap-1 text-gray-600">
+              <input
+                type="checkbox"
+                checked={showOnlyNew}
+                onChange={(e) => setShowOnlyNew(e.target.checked)}
+                className="accent-blue-600"
+              />
+              Show only new
+            </label>
+          </div>
+        )}
+
+        {/* Manual Mode Input */}
+        {mode === FetchMode.MANUAL && (
+          <ManualImport adapter={adapter} onImport={handleManualImport} />
+        )}
+
+        {/* Favorites and Collections */}
+        {mode === FetchMode.COLLECTION && (
+          <CollectionsPanel
+            collections={collections}
+            activeId={activeCollectionId}
+            selectedSources={selectedSources}
+            onSelect={setActiveCollectionId}
+            onShowMerge={() => setShowMerge(true)}
+          />
+        )}
+
+        {/* Merge Panel */}
+        {showMerge && (
+          <MergePanel sources={batchSources} health={health} onClose={() => setShowMerge(false)} />
+        )}
+
+        {/* Health Check Panel */}
+        {showHealthCheck && (
+          <HealthCheckPanel
+            sources={batchSources}
+            health={health}
+            onResults={(results) => {
+              setHealth(prev => new Map([...prev, ...results]));
+              refreshCachedQuality(batchSources);
+            }}
+            onClose={() => setShowHealthCheck(false)}
+          />
+        )}
+
+        {/* Rule Quality Panel */}
+        {showQuality && (
+          <QualityPanel
+            sources={batchSources}
+            quality={quality}
+            onResults={(results) => setQuality(prev => new Map([...prev, ...results]))}
+            onClose={() => setShowQuality(false)}
+          />
+        )}
+
+        {/* Duplicates Panel */}
+        {showDuplicates && (
+          <DuplicatesPanel
+            sources={batchSources}
+            report={duplicates}
+            canCompareJson={isBookSourceAdapter}
+            onReport={setDuplicates}
+            onKeepChange={handleKeepChange}
+            onClose={() => setShowDuplicates(false)}
+          />
+        )}
+
+        {/* Backup Comparison Panel */}
+        {showBackupCompare && (
+          <BackupComparePanel
+            sources={batchSources}
+            backup={backup}
+            installStates={installStates}
+            onBackupChange={(loaded) => {
+              setBackup(loaded);
+              setInstallStates(new Map());
+              setNotInstalledOnly(false);
+            }}
+            onResults={(results) => {
+              setInstallStates(prev => new Map([...prev, ...results]));
+              refreshCachedQuality(batchSources);
+            }}
+            onClose={() => setShowBackupCompare(false)}
+          />
+        )}
+
         {/* Status Messages */}
         {status === ScrapeStatus.ERROR && (
           <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-md flex items-start gap-3">
              <AlertCircle className="text-red-500 mt-0.5" size={20}/>
              <div>
-                <h3 className="text-red-800 font-medium">Error Fetching Page {currentPage}</h3>
+                <h3 className="text-red-800 font-medium">
+                    {mode === FetchMode.AUTO && `Error Fetching Page ${currentPage}`}
+                    {mode === FetchMode.CRAWL && 'Crawl Failed'}
+                    {mode === FetchMode.MANUAL && 'Error Parsing HTML'}
+                </h3>
                 <p className="text-red-700 text-sm">{error}</p>
-                <p className="text-red-600 text-xs mt-1">
-                    Wait a moment and try refreshing.
-                </p>
+                {mode !== FetchMode.MANUAL && (
+                  <p className="text-red-600 text-xs mt-1">
+                      Wait a moment and try refreshing, or{' '}
+                      <button
+                        onClick={() => handleModeChange(FetchMode.MANUAL)}
+                        className="underline font-medium hover:text-red-800"
+                      >
+                        switch to Manual Mode
+                      </button>.
+                  </p>
+                )}
              </div>
           </div>
         )}
 
+        {/* Fetch Diagnostics */}
+        {mode === FetchMode.AUTO && diagnostics && status !== ScrapeStatus.LOADING && (
+          <DiagnosticsPanel diagnostics={diagnostics} />
+        )}
+
         {/* AI Analysis Result */}
         {analysis && (
           <div className="mb-6 bg-purple-50 border border-purple-100 rounded-lg p-4 animate-in fade-in slide-in-from-top-4 duration-500">
@@ -223,28 +1091,155 @@ const App: React.FC = () => {
         {status === ScrapeStatus.SUCCESS && (
           <>
             <div className="mb-4 text-sm text-gray-500 flex justify-between items-center px-1">
-              <span>Found {filteredSources.length} sources on Page {currentPage}</span>
-              {filteredSources.length !== sources.length && (
-                 <span>(Filtered from {sources.length})</span>
-              )}
+              <span>Found {filteredSources.length} sources {mode === FetchMode.AUTO && `on Page ${currentPage}`}{mode === FetchMode.CRAWL && 'across crawled pages'}{mode === FetchMode.MANUAL && 'in imported HTML'}{mode === FetchMode.COLLECTION && `in ${getCollection(activeCollectionId)?.name ?? 'collection'}`}</span>
+              <span className="flex items-center gap-3">
+                {mode === FetchMode.AUTO && cacheInfo && (
+                  <span className={`flex items-center gap-1 text-xs ${cacheInfo.offline ? 'text-orange-600' : 'text-gray-400'}`}>
+                    <Database size={12} />
+                    Cached {formatAge(Date.now() - cacheInfo.storedAt)}
+                    {cacheInfo.refreshing && ' · stale, refreshing…'}
+                    {cacheInfo.offline && ' · offline copy'}
+                  </span>
+                )}
+                <label className="flex items-center gap-1 text-xs text-gray-600" title="Fetch uploader, description and counts for cards as they scroll into view">
+                  <input
+                    type="checkbox"
+                    checked={autoLoadDetails}
+                    onChange={(e) => handleAutoLoadDetailsChange(e.target.checked)}
+                    className="accent-blue-600"
+                  />
+                  Load details
+                </label>
+                {health.size > 0 && (
+                  <label className="flex items-center gap-1 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={workingOnly}
+                      onChange={(e) => setWorkingOnly(e.target.checked)}
+                      className="accent-blue-600"
+                    />
+                    Working only
+                  </label>
+                )}
+                {installStates.size > 0 && (
+                  <label className="flex items-center gap-1 text-xs text-gray-600" title="Hide sources your Legado backup already has in the latest version">
+                    <input
+                      type="checkbox"
+                      checked={notInstalledOnly}
+                      onChange={(e) => setNotInstalledOnly(e.target.checked)}
+                      className="accent-blue-600"
+                    />
+                    New or updated only
+                  </label>
+                )}
+                {duplicates && duplicates.clusters.length > 0 && (
+                  <label className="flex items-center gap-1 text-xs text-gray-600" title="Copy All and exports leave out files whose sources are all in the kept file of their cluster">
+                    <input
+                      type="checkbox"
+                      checked={skipRedundant}
+                      onChange={(e) => setSkipRedundant(e.target.checked)}
+                      className="accent-blue-600"
+                    />
+                    Skip duplicates
+                  </label>
+                )}
+                {quality.size > 0 && (
+                  <select
+                    value={minQuality}
+                    onChange={(e) => setMinQuality(Number(e.target.value))}
+                    className="px-1 py-0.5 text-xs border border-gray-300 rounded bg-white text-gray-600 focus:outline-none focus:border-blue-500"
+                    title="Hide sources whose rules scored below this (unscored sources are hidden too)"
+                  >
+                    <option value={0}>Any quality</option>
+                    <option value={FAIR_QUALITY}>Quality {FAIR_QUALITY}+</option>
+                    <option value={GOOD_QUALITY}>Quality {GOOD_QUALITY}+</option>
+                  </select>
+                )}
+                {filteredSources.length !== sources.length && (
+                   <span>(Filtered from {sources.length})</span>
+                )}
+              </span>
             </div>
 
+            {(classifications.size > 0 || activeTags.size > 0) && (
+              <TagFilter
+                tagCounts={countTags(classifications, sources)}
+                activeTags={activeTags}
+                onToggle={handleToggleTag}
+                onClear={() => setActiveTags(new Set())}
+              />
+            )}
+
+            {filteredSources.length > 0 && (
+              <SelectionToolbar
+                selectedCount={selectedSources.length}
+                exportSources={exportSources}
+                onSelectAll={handleSelectAll}
+                onSelectNone={handleSelectNone}
+                onInvert={handleInvertSelection}
+                onShowImport={() => setShowImportLinks(true)}
+                collections={collections}
+                onLoadDetails={handleLoadDetails}
+                onCancelDetails={handleCancelDetails}
+                detailsProgress={detailsProgress}
+              />
+            )}
+
+            {showImportLinks && exportSources.length > 0 && (
+              <ImportLinkPanel
+                sources={exportSources}
+                importKind={adapter.contentKind}
+                onClose={() => setShowImportLinks(false)}
+              />
+            )}
+
             {filteredSources.length > 0 ? (
-              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 md:gap-4">
-                {filteredSources.map((source) => (
-                  <SourceCard key={source.id} source={source} />
-                ))}
-              </div>
+              <VirtualGrid<BookSource>
+                items={filteredSources}
+                getKey={source => source.jsonUrl}
+                renderItem={(source) => (
+                  <SourceCard
+                    key={source.jsonUrl}
+                    source={source}
+                    selected={selectedUrls.has(source.jsonUrl)}
+                    onToggleSelect={handleToggleSelect}
+                    change={changes.get(source.jsonUrl)}
+                    health={health.get(source.jsonUrl)}
+                    installState={installStates.get(source.jsonUrl)}
+                    quality={quality.get(source.jsonUrl)}
+                    canPreview={isBookSourceAdapter}
+                    importKind={adapter.contentKind}
+                    classification={classifications.get(source.jsonUrl)}
+                    highlights={searchMatches.get(source.jsonUrl)?.highlights}
+                    favorite={favoriteUrls.has(source.jsonUrl)}
+                    onToggleFavorite={toggleFavorite}
+                    onVisible={handleCardVisible}
+                  />
+                )}
+              />
             ) : (
               <div className="text-center py-12 text-gray-500">
-                <p>No sources found matching your filter.</p>
+                <p>
+                  {mode === FetchMode.COLLECTION && sources.length === 0
+                    ? 'This collection is empty. Star sources or use "Add to..." on any listing to fill it.'
+                    : 'No sources found matching your filter.'}
+                </p>
               </div>
             )}
           </>
         )}
 
         {/* Quick Page Select Pagination */}
+        {mode === FetchMode.AUTO && (
         <div className="mt-8 flex justify-center items-center gap-2 py-4 border-t border-gray-200 flex-wrap">
+            <button
+                onClick={() => handlePageChange(1)}
+                disabled={currentPage === 1 || status === ScrapeStatus.LOADING}
+                className="flex items-center px-2 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="First Page"
+            >
+                <ChevronsLeft size={16} />
+            </button>
             <button
                 onClick={() => handlePageChange(currentPage - 1)}
                 disabled={currentPage === 1 || status === ScrapeStatus.LOADING}
@@ -272,19 +1267,49 @@ const App: React.FC = () => {
 
             <button
                 onClick={() => handlePageChange(currentPage + 1)}
-                disabled={status === ScrapeStatus.LOADING || (status === ScrapeStatus.ERROR && sources.length === 0)}
+                disabled={isLastPage || status === ScrapeStatus.LOADING || (status === ScrapeStatus.ERROR && sources.length === 0)}
                 className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 title="Next Page"
             >
                 <span className="hidden sm:inline">Next</span>
                 <ChevronRight size={16} />
             </button>
+            <button
+                onClick={() => totalPages !== undefined && handlePageChange(totalPages)}
+                disabled={totalPages === undefined || currentPage >= totalPages || status === ScrapeStatus.LOADING}
+                className="flex items-center px-2 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title={totalPages !== undefined ? `Last Page (${totalPages})` : 'Last page unknown'}
+            >
+                <ChevronsRight size={16} />
+            </button>
+
+            <form onSubmit={handleJump} className="flex items-center gap-1 ml-2 text-sm text-gray-500">
+                <input
+                    type="number"
+                    min={1}
+                    max={totalPages}
+                    value={jumpPage}
+                    onChange={(e) => setJumpPage(e.target.value)}
+                    placeholder={String(currentPage)}
+                    className="w-16 px-2 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                    title="Jump to page"
+                />
+                {totalPages !== undefined && <span>/ {totalPages}</span>}
+                <button
+                    type="submit"
+                    disabled={!jumpPage || status === ScrapeStatus.LOADING}
+                    className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                    Go
+                </button>
+            </form>
         </div>
+        )}
       </main>
       
       <footer className="bg-white border-t border-gray-200 py-4 mt-auto">
         <div className="max-w-7xl mx-auto px-4 text-center text-xs text-gray-400">
-          Generated for automated source extraction. Data fetched via allorigins/corsproxy/codetabs proxies.
+          Generated for automated source extraction. Data fetched via configurable CORS proxies.
         </div>
       </footer>
     </div>
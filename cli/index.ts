@@ -0,0 +1,161 @@
+// Headless entry point: scrape listing pages (or saved HTML files) from a terminal.
+// Run with `npm run cli -- --help`.
+import { readFile, writeFile, stat } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { parseHTML } from 'linkedom';
+import { ExportFormat, ScrapeResult, CrawlResult, ProxyAdapter } from '../types';
+import { fetchBookSources, crawlBookSources, parseHtmlContent, mergeScrapeResults, setHtmlParser } from '../services/scraperService';
+import { SITE_ADAPTERS, getAdapter, DEFAULT_ADAPTER } from '../services/siteAdapters';
+import { formatSources } from '../services/exportService';
+import { saveProxies } from '../services/proxyService';
+import { setCacheEnabled } from '../services/cacheService';
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1; // Nothing could be scraped
+const EXIT_USAGE = 2;   // Bad arguments
+const EXIT_PARTIAL = 3; // Some pages failed, so the output is incomplete
+
+const FORMATS: Record<string, ExportFormat> = {
+  json: ExportFormat.JSON,
+  csv: ExportFormat.CSV,
+  urls: ExportFormat.URLS,
+  markdown: ExportFormat.MARKDOWN,
+};
+
+const USAGE = `Usage: npm run cli -- [options]
+
+Options:
+  -p, --pages <range>     Page or range to fetch: "3", "1-5", or "1-" for every page (default: 1)
+  -i, --input <file>      Parse a saved listing HTML file instead of fetching (repeatable)
+  -f, --format <format>   json | csv | urls | markdown (default: json)
+  -o, --output <file>     Write to a file instead of stdout
+  -s, --site <id>         Listing to scrape: ${SITE_ADAPTERS.map(a => a.id).join(', ')} (default: ${DEFAULT_ADAPTER.id})
+  -c, --concurrency <n>   Pages fetched in parallel for ranges (default: 3)
+      --via <mode>        direct | proxies (default: direct; browsers need proxies, Node doesn't)
+  -h, --help              Show this help
+
+Exit codes: 0 success, 1 nothing scraped, 2 invalid arguments, 3 some pages failed.`;
+
+class UsageError extends Error {}
+// Arguments that parse but point at nothing usable; the help text wouldn't add anything
+class InputError extends UsageError {}
+
+const parsePageRange = (value: string): { startPage: number; endPage?: number } => {
+  const match = value.match(/^(\d+)(?:-(\d*))?$/);
+  if (!match) throw new UsageError(`Invalid page range "${value}"`);
+  const startPage = Math.max(1, parseInt(match[1], 10));
+  if (match[2] === undefined) return { startPage, endPage: startPage };
+  if (match[2] === '') return { startPage };
+  const endPage = parseInt(match[2], 10);
+  if (endPage < startPage) throw new UsageError(`Page range "${value}" ends before it starts`);
+  return { startPage, endPage };
+};
+
+const readInputs = async (files: string[], adapter = DEFAULT_ADAPTER): Promise<ScrapeResult> => {
+  const results: ScrapeResult[] = [];
+  for (const file of files) {
+    const [html, info] = await Promise.all([readFile(file, 'utf8'), stat(file)]).catch((error: NodeJS.ErrnoException) => {
+      throw new InputError(`Cannot read ${file}: ${error.code === 'ENOENT' ? 'no such file' : error.message}`);
+    });
+    // mtimeMs carries fractions of a millisecond; timestamps elsewhere are whole
+    const result = parseHtmlContent(html, Math.floor(info.mtimeMs), adapter);
+    if (!result.success) console.error(`${file}: ${result.error}`);
+    results.push(result);
+  }
+  return mergeScrapeResults(results);
+};
+
+const main = async (): Promise<number> => {
+  // Service logging goes to stderr so stdout stays clean for piping
+  console.log = console.error;
+
+  const { values } = parseArgs({
+    options: {
+      pages: { type: 'string', short: 'p', default: '1' },
+      input: { type: 'string', short: 'i', multiple: true },
+      format: { type: 'string', short: 'f', default: 'json' },
+      output: { type: 'string', short: 'o' },
+      site: { type: 'string', short: 's', default: DEFAULT_ADAPTER.id },
+      concurrency: { type: 'string', short: 'c', default: '3' },
+      via: { type: 'string', default: 'direct' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.error(USAGE);
+    return EXIT_OK;
+  }
+
+  const format = FORMATS[values.format];
+  if (!format) throw new UsageError(`Unknown format "${values.format}"`);
+  if (!SITE_ADAPTERS.some(a => a.id === values.site)) throw new UsageError(`Unknown site "${values.site}"`);
+  if (values.via !== 'direct' && values.via !== 'proxies') throw new UsageError(`Unknown --via mode "${values.via}"`);
+  const concurrency = parseInt(values.concurrency, 10);
+  if (!(concurrency >= 1)) throw new UsageError(`Invalid concurrency "${values.concurrency}"`);
+
+  const adapter = getAdapter(values.site);
+  setHtmlParser((html) => parseHTML(html).document as unknown as Document);
+  // Every run starts fresh; there's no IndexedDB to cache pages in
+  setCacheEnabled(false);
+
+  // No CORS outside the browser, so a pass-through "proxy" is all we need
+  if (values.via === 'direct') {
+    saveProxies([{ id: 'direct', name: 'Direct', template: '{url}', adapter: ProxyAdapter.RAW, timeoutMs: 20000, enabled: true }]);
+  }
+
+  let result: ScrapeResult;
+  let pagesFailed: CrawlResult['pagesFailed'] = [];
+  if (values.input && values.input.length > 0) {
+    result = await readInputs(values.input, adapter);
+  } else {
+    const { startPage, endPage } = parsePageRange(values.pages);
+    if (startPage === endPage) {
+      result = await fetchBookSources(startPage, undefined, adapter);
+    } else {
+      const crawl = await crawlBookSources({
+        startPage,
+        endPage,
+        concurrency,
+        adapter,
+        onProgress: (progress) => console.error(`Pages done: ${progress.pagesDone}, sources: ${progress.sourcesFound}`),
+      });
+      result = crawl;
+      pagesFailed = crawl.pagesFailed;
+    }
+  }
+
+  if (!result.success) {
+    console.error(result.error || "Scrape failed");
+    return EXIT_FAILURE;
+  }
+
+  const output = formatSources(result.data, format) + '\n';
+  if (values.output) {
+    await writeFile(values.output, output, 'utf8');
+    console.error(`Wrote ${result.data.length} sources to ${values.output}`);
+  } else {
+    process.stdout.write(output);
+  }
+
+  if (pagesFailed.length > 0) {
+    pagesFailed.forEach(({ page, error }) => console.error(`Page ${page} failed: ${error}`));
+    return EXIT_PARTIAL;
+  }
+  return EXIT_OK;
+};
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(error => {
+    if (error instanceof InputError) {
+      console.error(error.message);
+      process.exitCode = EXIT_USAGE;
+    } else if (error instanceof UsageError || error?.code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION') {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exitCode = EXIT_USAGE;
+    } else {
+      console.error(error);
+      process.exitCode = EXIT_FAILURE;
+    }
+  });
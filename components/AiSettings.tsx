@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { AiProviderId, AiSettings as AiSettingsValue } from '../types';
+import {
+  getAiSettings, saveAiSettings, resetAiSettings, subscribeAiSettings,
+  isAiConfigured, AI_PROVIDER_LABELS, DEFAULT_MODELS,
+} from '../services/aiService';
+import { clearClassificationCache } from '../services/classificationService';
+
+const inputClass = "px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500";
+
+export const AiSettings: React.FC = () => {
+  const [settings, setSettings] = useState(getAiSettings());
+  const [cleared, setCleared] = useState(false);
+
+  useEffect(() => subscribeAiSettings(() => setSettings(getAiSettings())), []);
+
+  const update = (changes: Partial<AiSettingsValue>) => saveAiSettings({ ...settings, ...changes });
+
+  // Switching backend resets the model, since names are provider-specific
+  const changeProvider = (provider: AiProviderId) => update({ provider, model: DEFAULT_MODELS[provider] });
+
+  const handleClearTags = () => {
+    clearClassificationCache();
+    setCleared(true);
+    setTimeout(() => setCleared(false), 2000);
+  };
+
+  const isKeyword = settings.provider === AiProviderId.KEYWORD;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-800">AI Provider</h3>
+        <div className="flex gap-2">
+          <button onClick={handleClearTags} className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800"
+            title="Forget cached per-source tags so they are classified again">
+            <Trash2 size={12} /> {cleared ? 'Cleared' : 'Clear cached tags'}
+          </button>
+          <button onClick={resetAiSettings} className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800">
+            <RotateCcw size={12} /> Restore defaults
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <select
+          value={settings.provider}
+          onChange={(e) => changeProvider(e.target.value as AiProviderId)}
+          className={inputClass}
+        >
+          {Object.values(AiProviderId).map(id => (
+            <option key={id} value={id}>{AI_PROVIDER_LABELS[id]}</option>
+          ))}
+        </select>
+        {settings.provider === AiProviderId.OPENAI_COMPATIBLE && (
+          <input
+            value={settings.baseUrl}
+            onChange={(e) => update({ baseUrl: e.target.value })}
+            placeholder="http://localhost:11434/v1"
+            className={`${inputClass} flex-1 min-w-[12rem]`}
+            title="Base URL; requests go to {baseUrl}/chat/completions"
+          />
+        )}
+        {!isKeyword && (
+          <>
+            <input
+              value={settings.model}
+              onChange={(e) => update({ model: e.target.value })}
+              placeholder={DEFAULT_MODELS[settings.provider]}
+              className={`${inputClass} w-40`}
+              title="Model"
+            />
+            <input
+              type="password"
+              value={settings.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              placeholder={settings.provider === AiProviderId.GEMINI ? 'API key (or build-time API_KEY)' : 'API key (optional)'}
+              className={`${inputClass} w-48`}
+              autoComplete="off"
+            />
+          </>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {isKeyword
+          ? 'Titles are tagged by built-in keyword rules. Nothing leaves the browser.'
+          : isAiConfigured(settings)
+            ? 'Titles are sent to this provider for Analyze and Classify. Keys are stored in this browser only.'
+            : 'Missing configuration. Analyze and Classify will fail until it is filled in.'}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { ArchiveRestore, X, Upload, Play, Download, Loader2 } from 'lucide-react';
+import { BookSource, InstallStatus, LegadoBackup, LegadoBookSource, SourceInstallState } from '../types';
+import { fetchSourceJsonBatch } from '../services/legadoService';
+import { parseBackup, compareWithBackup } from '../services/backupService';
+import { downloadTextFile, fileDateStamp } from '../services/exportService';
+
+interface BackupComparePanelProps {
+  sources: BookSource[];
+  backup: LegadoBackup | null;
+  installStates: Map<string, SourceInstallState>;
+  onBackupChange: (backup: LegadoBackup) => void;
+  onResults: (results: Map<string, SourceInstallState>) => void;
+  onClose: () => void;
+}
+
+export const BackupComparePanel: React.FC<BackupComparePanelProps> = ({ sources, backup, installStates, onBackupChange, onResults, onClose }) => {
+  const [isComparing, setIsComparing] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [pending, setPending] = useState<{ updates: LegadoBookSource[]; additions: LegadoBookSource[] } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleUpload = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      onBackupChange(await parseBackup(file));
+      setPending(null);
+      setMessage(null);
+    } catch (e: any) {
+      setMessage(`${file.name}: ${e.message}`);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleCompare = async () => {
+    if (!backup) return;
+    setIsComparing(true);
+    setPending(null);
+    setProgress({ done: 0, total: sources.length });
+
+    const fetched = await fetchSourceJsonBatch(sources, (done, total) => setProgress({ done, total }));
+    const comparison = compareWithBackup(fetched, backup);
+    onResults(comparison.states);
+    setPending({ updates: comparison.updates, additions: comparison.additions });
+    setIsComparing(false);
+  };
+
+  const handleDownload = () => {
+    if (!pending) return;
+    downloadTextFile(
+      `bookSource-updates-${fileDateStamp()}.json`,
+      JSON.stringify([...pending.updates, ...pending.additions], null, 2),
+      'application/json'
+    );
+  };
+
+  const counts = sources.reduce((acc, source) => {
+    const status = installStates.get(source.jsonUrl)?.status;
+    if (status) acc[status] = (acc[status] ?? 0) + 1;
+    return acc;
+  }, {} as Partial<Record<InstallStatus, number>>);
+
+  const exportCount = pending ? pending.updates.length + pending.additions.length : 0;
+
+  return (
+    <div className="mb-6 bg-white border border-gray-200 rounded-lg p-3 sm:p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <ArchiveRestore className="text-teal-600" size={18} />
+          <h2 className="font-semibold text-gray-800 text-sm sm:text-base">
+            Compare with Legado backup ({sources.length} source file{sources.length === 1 ? '' : 's'})
+          </h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isComparing}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+        >
+          <Upload size={14} /> {backup ? 'Replace backup' : 'Upload bookSource.json'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => handleUpload(e.target.files)}
+        />
+        {backup && (
+          <span title={`Loaded ${new Date(backup.loadedAt).toLocaleString()}`}>
+            {backup.fileName}: {backup.entries.length} installed source{backup.entries.length === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+
+      {message && <p className="mt-2 text-xs text-red-600">{message}</p>}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleCompare}
+          disabled={!backup || isComparing || sources.length === 0}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {isComparing ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+          {isComparing ? `Fetching ${progress.done}/${progress.total}` : 'Fetch & Compare'}
+        </button>
+        {pending && exportCount > 0 && (
+          <button
+            onClick={handleDownload}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            title="One Legado file with just the newer and missing sources"
+          >
+            <Download size={14} />
+            Download updates & additions ({exportCount})
+          </button>
+        )}
+      </div>
+
+      {installStates.size > 0 && (
+        <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+          <span className="text-gray-600">{counts[InstallStatus.INSTALLED] ?? 0} installed</span>
+          <span className="text-blue-700">{counts[InstallStatus.UPDATE_AVAILABLE] ?? 0} with updates</span>
+          <span className="text-green-700">{counts[InstallStatus.NOT_INSTALLED] ?? 0} not installed</span>
+          <span className="text-gray-500">{counts[InstallStatus.ERROR] ?? 0} JSON errors</span>
+          {pending && (
+            <span className="text-gray-500">
+              {pending.updates.length} newer and {pending.additions.length} new Legado entries
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { CacheStats } from '../types';
+import { getCacheStats, clearCache, getCacheTtlMinutes, setCacheTtlMinutes } from '../services/cacheService';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const CacheSettings: React.FC = () => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [ttl, setTtl] = useState(String(getCacheTtlMinutes()));
+
+  const refreshStats = () => {
+    getCacheStats().then(setStats);
+  };
+
+  useEffect(refreshStats, []);
+
+  const handleTtlChange = (value: string) => {
+    setTtl(value);
+    const minutes = parseInt(value, 10);
+    if (!Number.isNaN(minutes)) setCacheTtlMinutes(minutes);
+  };
+
+  const handleClear = async () => {
+    await clearCache();
+    refreshStats();
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-gray-800">Offline Cache</h3>
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        <span>
+          {stats
+            ? `${stats.pages} pages · ${stats.jsonFiles} JSON files · ${stats.details} detail pages · ${formatBytes(stats.bytes)}`
+            : 'Measuring...'}
+        </span>
+        <label className="flex items-center gap-1 text-gray-500">
+          Refresh after
+          <input
+            type="number"
+            min={0}
+            value={ttl}
+            onChange={(e) => handleTtlChange(e.target.value)}
+            className="w-16 px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+          />
+          min
+        </label>
+        <button
+          onClick={handleClear}
+          disabled={!stats || stats.entries === 0}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 disabled:opacity-50"
+        >
+          <Trash2 size={12} /> Clear cache
+        </button>
+      </div>
+    </div>
+  );
+};
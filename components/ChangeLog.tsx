@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { History, X, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { CrawlSnapshot, SnapshotDiff } from '../types';
+import { listSnapshots, diffSnapshots, clearSnapshots } from '../services/snapshotService';
+
+interface ChangeLogProps {
+  onClose: () => void;
+}
+
+interface LogEntry {
+  scope: string;
+  count: number;
+  diff: SnapshotDiff;
+}
+
+// Pair every snapshot with the one before it in the same scope, newest first
+const buildLog = (snapshots: CrawlSnapshot[]): LogEntry[] => {
+  const lastByScope = new Map<string, CrawlSnapshot>();
+  const entries: LogEntry[] = [];
+  snapshots.forEach(snapshot => {
+    entries.push({
+      scope: snapshot.scope,
+      count: snapshot.sources.length,
+      diff: diffSnapshots(lastByScope.get(snapshot.scope), snapshot),
+    });
+    lastByScope.set(snapshot.scope, snapshot);
+  });
+  return entries.reverse();
+};
+
+const SourceList: React.FC<{ label: string; className: string; items: { id: string; title: string }[] }> = ({ label, className, items }) =>
+  items.length === 0 ? null : (
+    <div>
+      <div className={`font-semibold ${className}`}>{label} ({items.length})</div>
+      <ul className="pl-3 text-gray-600">
+        {items.map(item => (
+          <li key={item.id} className="truncate">{item.title} <span className="text-gray-400">#{item.id}</span></li>
+        ))}
+      </ul>
+    </div>
+  );
+
+export const ChangeLog: React.FC<ChangeLogProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<LogEntry[] | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  useEffect(() => {
+    listSnapshots().then(snapshots => setEntries(buildLog(snapshots)));
+  }, []);
+
+  const handleClear = async () => {
+    await clearSnapshots();
+    setEntries([]);
+  };
+
+  return (
+    <div className="mb-6 bg-white border border-gray-200 rounded-lg p-3 sm:p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <History className="text-blue-600" size={18} />
+          <h2 className="font-semibold text-gray-800 text-sm sm:text-base">Change Log</h2>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleClear}
+            disabled={!entries || entries.length === 0}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-red-600 disabled:opacity-50"
+          >
+            <Trash2 size={12} /> Clear history
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      {!entries && <p className="text-xs text-gray-500">Loading snapshots...</p>}
+      {entries && entries.length === 0 && (
+        <p className="text-xs text-gray-500">No crawls recorded yet. Each completed crawl is saved as a snapshot.</p>
+      )}
+
+      {entries && entries.length > 0 && (
+        <ul className="divide-y divide-gray-100 border border-gray-100 rounded-md text-xs">
+          {entries.map((entry, idx) => {
+            const { diff } = entry;
+            const isOpen = expanded === idx;
+            const hasChanges = diff.added.length + diff.updated.length + diff.removed.length > 0;
+            return (
+              <li key={`${entry.scope}-${diff.takenAt}`} className="p-2">
+                <button
+                  onClick={() => setExpanded(isOpen ? null : idx)}
+                  disabled={!hasChanges}
+                  className="w-full flex items-center gap-2 text-left"
+                >
+                  {hasChanges
+                    ? (isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />)
+                    : <span className="w-3" />}
+                  <span className="text-gray-800">{new Date(diff.takenAt).toLocaleString()}</span>
+                  <span className="text-gray-400">{entry.scope} · {entry.count} sources</span>
+                  <span className="ml-auto flex gap-2">
+                    {diff.previousTakenAt === undefined ? (
+                      <span className="text-gray-400">baseline</span>
+                    ) : (
+                      <>
+                        <span className="text-green-600">+{diff.added.length}</span>
+                        <span className="text-blue-600">~{diff.updated.length}</span>
+                        <span className="text-red-600">-{diff.removed.length}</span>
+                      </>
+                    )}
+                  </span>
+                </button>
+                {isOpen && (
+                  <div className="mt-2 space-y-2 max-h-64 overflow-y-auto">
+                    <SourceList label="New" className="text-green-700" items={diff.added} />
+                    <SourceList label="Updated" className="text-blue-700" items={diff.updated.map(({ after }) => after)} />
+                    <SourceList label="Removed" className="text-red-700" items={diff.removed} />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
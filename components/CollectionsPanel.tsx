@@ -0,0 +1,171 @@
+import React, { useRef, useState } from 'react';
+import { Star, FolderOpen, Plus, Trash2, Upload, Download, Combine, Pencil, Check, X } from 'lucide-react';
+import { BookSource, ExportFormat, SourceCollection } from '../types';
+import {
+  FAVORITES_ID, createCollection, renameCollection, deleteCollection,
+  removeFromCollection, downloadCollections, importCollections,
+} from '../services/collectionService';
+import { downloadSources } from '../services/exportService';
+
+interface CollectionsPanelProps {
+  collections: SourceCollection[];
+  activeId: string;
+  selectedSources: BookSource[];
+  onSelect: (id: string) => void;
+  onShowMerge: () => void;
+}
+
+const inputClass = "px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500";
+const actionClass = "flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50";
+
+export const CollectionsPanel: React.FC<CollectionsPanelProps> = ({
+  collections, activeId, selectedSources, onSelect, onShowMerge,
+}) => {
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const active = collections.find(c => c.id === activeId);
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    const created = createCollection(newName);
+    setNewName('');
+    onSelect(created.id);
+  };
+
+  const handleRename = () => {
+    if (active && renaming !== null) renameCollection(active.id, renaming);
+    setRenaming(null);
+  };
+
+  const handleDelete = () => {
+    if (!active || !window.confirm(`Delete collection "${active.name}"?`)) return;
+    deleteCollection(active.id);
+    onSelect(FAVORITES_ID);
+  };
+
+  const handleImport = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      const added = importCollections(await file.text());
+      setMessage(`Imported ${added} source${added === 1 ? '' : 's'} from ${file.name}.`);
+    } catch (e: any) {
+      setMessage(`${file.name}: ${e.message}`);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="mb-6 bg-white border border-gray-200 rounded-lg p-3 sm:p-4 shadow-sm space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {collections.map(collection => (
+          <button
+            key={collection.id}
+            onClick={() => onSelect(collection.id)}
+            className={`flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md border transition-colors ${
+              collection.id === activeId
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {collection.id === FAVORITES_ID ? <Star size={12} /> : <FolderOpen size={12} />}
+            {collection.name}
+            <span className="opacity-70">{collection.sources.length}</span>
+          </button>
+        ))}
+        <div className="flex items-center gap-1 ml-auto">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="New collection"
+            className={`${inputClass} w-36`}
+          />
+          <button onClick={handleCreate} disabled={!newName.trim()} className={actionClass} title="Create collection">
+            <Plus size={12} />
+          </button>
+        </div>
+      </div>
+
+      {active && (
+        <div className="flex flex-wrap items-center gap-2 border-t border-gray-100 pt-3">
+          {renaming !== null ? (
+            <>
+              <input
+                value={renaming}
+                onChange={(e) => setRenaming(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                className={`${inputClass} w-40`}
+                autoFocus
+              />
+              <button onClick={handleRename} className={actionClass} title="Save name"><Check size={12} /></button>
+              <button onClick={() => setRenaming(null)} className={actionClass} title="Cancel"><X size={12} /></button>
+            </>
+          ) : (
+            <>
+              <h3 className="text-sm font-semibold text-gray-800">{active.name}</h3>
+              {active.id !== FAVORITES_ID && (
+                <button onClick={() => setRenaming(active.name)} className="text-gray-400 hover:text-gray-700" title="Rename">
+                  <Pencil size={12} />
+                </button>
+              )}
+            </>
+          )}
+
+          <div className="ml-auto flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => removeFromCollection(active.id, selectedSources.map(s => s.jsonUrl))}
+              disabled={selectedSources.length === 0}
+              className={actionClass}
+              title="Remove the selected sources from this collection"
+            >
+              <X size={12} /> Remove selected
+            </button>
+            <button
+              onClick={() => downloadSources(active.sources, ExportFormat.URLS)}
+              disabled={active.sources.length === 0}
+              className={actionClass}
+            >
+              <Download size={12} /> URL list
+            </button>
+            <button onClick={onShowMerge} disabled={active.sources.length === 0} className={actionClass}>
+              <Combine size={12} /> Merged JSON
+            </button>
+            <button onClick={() => downloadCollections([active.id])} className={actionClass} title="Share this collection as a file">
+              <Download size={12} /> Export
+            </button>
+            {active.id !== FAVORITES_ID && (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100"
+              >
+                <Trash2 size={12} /> Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 border-t border-gray-100 pt-3 text-xs text-gray-500">
+        <span>Share collections between browsers:</span>
+        <button onClick={() => downloadCollections(collections.map(c => c.id))} className={actionClass}>
+          <Download size={12} /> Export all
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={actionClass}>
+          <Upload size={12} /> Import file
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => handleImport(e.target.files)}
+        />
+        {message && <span className="text-gray-600">{message}</span>}
+      </div>
+    </div>
+  );
+};
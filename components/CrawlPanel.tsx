@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Layers, Play, Square, History } from 'lucide-react';
+import { CrawlProgress, CrawlResult } from '../types';
+
+export interface CrawlRange {
+  startPage: number;
+  endPage?: number;
+  concurrency: number;
+}
+
+interface CrawlPanelProps {
+  isCrawling: boolean;
+  progress: CrawlProgress | null;
+  failures: CrawlResult['pagesFailed']; // Pages of the finished crawl that couldn't be loaded
+  onStart: (range: CrawlRange) => void;
+  onCancel: () => void;
+  onShowHistory: () => void;
+}
+
+export const CrawlPanel: React.FC<CrawlPanelProps> = ({ isCrawling, progress, failures, onStart, onCancel, onShowHistory }) => {
+  const [startPage, setStartPage] = useState('1');
+  const [endPage, setEndPage] = useState('');
+  const [concurrency, setConcurrency] = useState('3');
+
+  const handleStart = () => {
+    const start = Math.max(1, parseInt(startPage, 10) || 1);
+    const end = parseInt(endPage, 10);
+    onStart({
+      startPage: start,
+      endPage: Number.isNaN(end) ? undefined : Math.max(start, end),
+      concurrency: Math.min(6, Math.max(1, parseInt(concurrency, 10) || 1)),
+    });
+  };
+
+  // Without an explicit end page we can only show a bar once the last page is known
+  const knownTotal = progress?.lastPage ?? (endPage ? parseInt(endPage, 10) - (parseInt(startPage, 10) || 1) + 1 : undefined);
+  const percent = knownTotal && progress ? Math.min(100, Math.round((progress.pagesDone / knownTotal) * 100)) : null;
+
+  const inputClass = "w-20 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 disabled:bg-gray-100";
+
+  return (
+    <div className="mb-6 bg-white border border-gray-200 rounded-lg p-3 sm:p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Layers className="text-blue-600" size={18} />
+          <h2 className="font-semibold text-gray-800 text-sm sm:text-base">Crawl Catalog</h2>
+        </div>
+        <button onClick={onShowHistory} className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800">
+          <History size={12} /> Change log
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col text-xs text-gray-500 gap-1">
+          From page
+          <input type="number" min={1} value={startPage} disabled={isCrawling}
+            onChange={(e) => setStartPage(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col text-xs text-gray-500 gap-1">
+          To page
+          <input type="number" min={1} value={endPage} disabled={isCrawling} placeholder="All"
+            onChange={(e) => setEndPage(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col text-xs text-gray-500 gap-1">
+          Parallel
+          <input type="number" min={1} max={6} value={concurrency} disabled={isCrawling}
+            onChange={(e) => setConcurrency(e.target.value)} className={inputClass} />
+        </label>
+
+        {isCrawling ? (
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 transition-colors"
+          >
+            <Square size={14} />
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Play size={14} />
+            Start Crawl
+          </button>
+        )}
+      </div>
+
+      {progress && (
+        <div className="mt-4 space-y-2">
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full bg-blue-500 transition-all duration-300 ${percent === null && isCrawling ? 'animate-pulse w-full opacity-40' : ''}`}
+              style={percent !== null ? { width: `${percent}%` } : undefined}
+            />
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+            <span>{progress.pagesDone} pages done</span>
+            <span>{progress.sourcesFound} unique sources</span>
+            {progress.activePages.length > 0 && (
+              <span>Fetching: {progress.activePages.join(', ')}</span>
+            )}
+            {progress.lastPage !== undefined && (
+              <span>Last page: {progress.lastPage}</span>
+            )}
+            {progress.pagesFailed.length > 0 && (
+              <span className="text-orange-600">Failed: {progress.pagesFailed.join(', ')}</span>
+            )}
+          </div>
+          {!isCrawling && failures.length > 0 && (
+            <div className="p-2 text-xs text-orange-700 bg-orange-50 border border-orange-100 rounded-md space-y-0.5">
+              <p className="font-medium">
+                {failures.length} page{failures.length === 1 ? '' : 's'} failed to load, so their sources are missing from this crawl:
+              </p>
+              {failures.map(({ page, error }) => (
+                <p key={page} className="truncate" title={error}>Page {page}: {error}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
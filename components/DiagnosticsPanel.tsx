@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Activity, ChevronDown, ChevronUp } from 'lucide-react';
+import { FetchDiagnostics, FetchFailureReason } from '../types';
+import { diagnoseAttempts, describeAttempt } from '../services/fetchErrors';
+
+interface DiagnosticsPanelProps {
+  diagnostics: FetchDiagnostics;
+}
+
+const barColor = (ok: boolean, reason?: FetchFailureReason) => {
+  if (ok) return 'bg-green-500';
+  if (reason === FetchFailureReason.CANCELLED) return 'bg-gray-300';
+  if (reason === FetchFailureReason.INVALID_CONTENT || reason === FetchFailureReason.PARSE_ERROR) return 'bg-orange-400';
+  return 'bg-red-500';
+};
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics }) => {
+  const [expanded, setExpanded] = useState(false);
+  const { attempts } = diagnostics;
+  // Parse steps end after the last request; keep them inside the chart
+  const span = Math.max(1, diagnostics.durationMs, ...attempts.map(a => a.startedAt - diagnostics.startedAt + a.durationMs));
+  const retries = Math.max(0, ...attempts.map(a => a.round));
+
+  return (
+    <div className="mb-4 bg-white border border-gray-200 rounded-lg text-xs">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-gray-600 hover:bg-gray-50 rounded-lg"
+      >
+        <Activity size={14} className={diagnostics.ok ? 'text-green-600' : 'text-red-600'} />
+        <span className="font-medium text-gray-800">Diagnostics</span>
+        <span className="truncate">
+          {attempts.length} attempt{attempts.length === 1 ? '' : 's'}
+          {retries > 0 && ` · ${retries} retr${retries === 1 ? 'y' : 'ies'}`}
+          {` · ${(diagnostics.durationMs / 1000).toFixed(1)}s · `}
+          {diagnoseAttempts(attempts)}
+        </span>
+        <span className="ml-auto">{expanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}</span>
+      </button>
+
+      {expanded && (
+        <ul className="border-t border-gray-100 divide-y divide-gray-50">
+          {attempts.map((attempt, i) => {
+            const offset = ((attempt.startedAt - diagnostics.startedAt) / span) * 100;
+            const width = Math.max(0.5, (attempt.durationMs / span) * 100);
+            return (
+              <li key={i} className="px-3 py-1.5 flex items-center gap-2" title={attempt.message || attempt.requestUrl}>
+                <span className="w-28 shrink-0 truncate text-gray-700">
+                  {attempt.via}
+                  {attempt.round > 0 && <span className="ml-1 text-gray-400">retry {attempt.round}</span>}
+                </span>
+                <div className="relative flex-1 h-2 bg-gray-100 rounded">
+                  <div
+                    className={`absolute top-0 h-2 rounded ${barColor(attempt.ok, attempt.reason)}`}
+                    style={{ left: `${Math.min(offset, 99.5)}%`, width: `${Math.min(width, 100 - Math.min(offset, 99.5))}%` }}
+                  />
+                </div>
+                <span className={`w-24 shrink-0 text-right ${attempt.ok ? 'text-green-700' : 'text-gray-600'}`}>
+                  {describeAttempt(attempt)}
+                </span>
+                <span className="w-14 shrink-0 text-right text-gray-400">{attempt.durationMs}ms</span>
+              </li>
+            );
+          })}
+          {attempts.length === 0 && <li className="px-3 py-1.5 text-gray-400">No requests were made.</li>}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { CopyMinus, X, Play, Loader2 } from 'lucide-react';
+import { BookSource, DuplicateCluster, DuplicateMember, DuplicateReason, DuplicateReport } from '../types';
+import { findDuplicates } from '../services/duplicateService';
+
+interface DuplicatesPanelProps {
+  sources: BookSource[];
+  report: DuplicateReport | null;
+  canCompareJson: boolean; // Only Legado book source listings have comparable JSON
+  onReport: (report: DuplicateReport) => void;
+  onKeepChange: (clusterId: string, jsonUrl: string) => void;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  [DuplicateReason.IDENTICAL_JSON]: 'Identical JSON',
+  [DuplicateReason.URL_SUBSET]: 'Sites contained in another',
+  [DuplicateReason.SIMILAR_TITLE]: 'Similar title',
+};
+
+const formatDate = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toLocaleDateString() : 'no date';
+
+export const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({ sources, report, canCompareJson, onReport, onKeepChange, onClose }) => {
+  const [compareJson, setCompareJson] = useState(canCompareJson);
+  const [isChecking, setIsChecking] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [message, setMessage] = useState<string | null>(null);
+
+  const byUrl = new Map<string, BookSource>(sources.map(source => [source.jsonUrl, source]));
+  // Clusters can outlive a filter change; only show members that are still listed
+  const clusters = (report?.clusters ?? []).filter(cluster =>
+    cluster.members.filter(member => byUrl.has(member.jsonUrl)).length > 1
+  );
+  // Only members whose sources are all in the kept one are skipped
+  const isRedundant = (cluster: DuplicateCluster, member: DuplicateMember) =>
+    member.jsonUrl !== cluster.keepUrl && member.coveredBy.includes(cluster.keepUrl);
+  const redundant = clusters.reduce((sum, cluster) =>
+    sum + cluster.members.filter(member => byUrl.has(member.jsonUrl) && isRedundant(cluster, member)).length, 0);
+
+  const handleStart = async () => {
+    setIsChecking(true);
+    setProgress({ done: 0, total: sources.length });
+    setMessage(null);
+    try {
+      onReport(await findDuplicates(sources, compareJson && canCompareJson, (done, total) => setProgress({ done, total })));
+    } catch (e: any) {
+      console.error("Duplicate check failed:", e);
+      setMessage(`Duplicate check failed: ${e.message}`);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const renderCluster = (cluster: DuplicateCluster) => (
+    <li key={cluster.id} className="p-2 space-y-1">
+      <div className="flex flex-wrap gap-1">
+        {cluster.reasons.map(reason => (
+          <span key={reason} className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-orange-50 text-orange-700 border border-orange-100">
+            {REASON_LABELS[reason]}
+          </span>
+        ))}
+        {cluster.reviewOnly && <span className="text-[10px] text-gray-400">Review only, never skipped</span>}
+      </div>
+      {cluster.members.filter(member => byUrl.has(member.jsonUrl)).map(member => {
+        const source = byUrl.get(member.jsonUrl)!;
+        const keep = member.jsonUrl === cluster.keepUrl;
+        return (
+          <label key={member.jsonUrl} className={`flex items-center gap-2 ${keep ? 'text-gray-800' : 'text-gray-500'}`}>
+            <input
+              type="radio"
+              name={`keep-${cluster.id}`}
+              checked={keep}
+              onChange={() => onKeepChange(cluster.id, member.jsonUrl)}
+              className="accent-blue-600"
+            />
+            <span className="truncate flex-1" title={source.title}>{source.title}</span>
+            <span className="shrink-0 text-gray-400">
+              ID {source.id} · {formatDate(member.freshness)}{member.entryCount !== undefined && ` · ${member.entryCount} sources`}
+            </span>
+            {keep && <span className="shrink-0 font-medium text-green-700">Keep</span>}
+            {isRedundant(cluster, member) && <span className="shrink-0 text-orange-600">Skipped</span>}
+          </label>
+        );
+      })}
+    </li>
+  );
+
+  return (
+    <div className="mb-6 bg-white border border-gray-200 rounded-lg p-3 sm:p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <CopyMinus className="text-orange-600" size={18} />
+          <h2 className="font-semibold text-gray-800 text-sm sm:text-base">
+            Duplicates ({sources.length} source file{sources.length === 1 ? '' : 's'})
+          </h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        <label className="flex items-center gap-1" title="Download each JSON to compare contents and contained bookSourceUrls; titles are always compared">
+          <input type="checkbox" checked={compareJson && canCompareJson} disabled={!canCompareJson || isChecking}
+            onChange={(e) => setCompareJson(e.target.checked)} className="accent-blue-600" />
+          Compare JSON contents
+        </label>
+        <button
+          onClick={handleStart}
+          disabled={isChecking || sources.length < 2}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {isChecking ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+          {isChecking ? `Fetching ${progress.done}/${progress.total}` : 'Find Duplicates'}
+        </button>
+      </div>
+
+      {message && <p className="mt-2 text-xs text-red-600">{message}</p>}
+
+      {report && (
+        <div className="mt-3 text-xs space-y-2">
+          <p className="text-gray-600">
+            {clusters.length} cluster{clusters.length === 1 ? '' : 's'}, {redundant} redundant source{redundant === 1 ? '' : 's'}.
+            {' '}The file that contains the others (then the largest, then the newest) is kept unless you pick another;
+            {' '}only files whose sources are all in the kept one are skipped.
+            {report.failed > 0 && ` ${report.failed} JSON file${report.failed === 1 ? '' : 's'} couldn't be loaded and were compared by title only.`}
+          </p>
+          {clusters.length > 0 && (
+            <ul className="max-h-72 overflow-y-auto border border-gray-100 rounded-md divide-y divide-gray-100">
+              {clusters.map(renderCluster)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
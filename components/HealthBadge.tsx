@@ -0,0 +1,32 @@
+import React from 'react';
+import { HealthStatus, SourceHealth } from '../types';
+
+const STYLES: Record<HealthStatus, { label: string; className: string }> = {
+  [HealthStatus.HEALTHY]: { label: 'Alive', className: 'bg-green-100 text-green-700' },
+  [HealthStatus.PARTIAL]: { label: 'Partial', className: 'bg-yellow-100 text-yellow-800' },
+  [HealthStatus.DEAD]: { label: 'Dead', className: 'bg-red-100 text-red-700' },
+  [HealthStatus.ERROR]: { label: 'No JSON', className: 'bg-gray-100 text-gray-500' },
+};
+
+// Multi-line tooltip listing each contained site's result
+const describe = (health: SourceHealth): string => {
+  if (health.error) return health.error;
+  return health.entries.map(entry => {
+    const site = entry.site.ok ? `${entry.site.status} in ${entry.site.latencyMs}ms` : entry.site.error;
+    const search = entry.search ? ` | search: ${entry.search.ok ? entry.search.status : entry.search.error}` : '';
+    return `${entry.bookSourceName}: ${site}${search}`;
+  }).join('\n');
+};
+
+export const HealthBadge: React.FC<{ health: SourceHealth }> = ({ health }) => {
+  const style = STYLES[health.status];
+  const alive = health.entries.filter(entry => entry.site.ok).length;
+  return (
+    <span
+      className={`px-1.5 py-0.5 text-[10px] font-medium rounded whitespace-nowrap ${style.className}`}
+      title={describe(health)}
+    >
+      {style.label}{health.entries.length > 0 && ` ${alive}/${health.entries.length}`}
+    </span>
+  );
+};
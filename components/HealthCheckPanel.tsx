@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { HeartPulse, X, Play, Square, Loader2 } from 'lucide-react';
+import { BookSource, HealthStatus, SourceHealth } from '../types';
+import { checkSourcesHealth } from '../services/healthService';
+
+interface HealthCheckPanelProps {
+  sources: BookSource[];
+  health: Map<string, SourceHealth>;
+  onResults: (results: Map<string, SourceHealth>) => void;
+  onClose: () => void;
+}
+
+const inputClass = "px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 disabled:bg-gray-100";
+
+export const HealthCheckPanel: React.FC<HealthCheckPanelProps> = ({ sources, health, onResults, onClose }) => {
+  const [keyword, setKeyword] = useState('');
+  const [direct, setDirect] = useState(false);
+  const [timeoutSeconds, setTimeoutSeconds] = useState('10');
+  const [isChecking, setIsChecking] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [controller, setController] = useState<AbortController | null>(null);
+
+  const handleStart = async () => {
+    const abortController = new AbortController();
+    setController(abortController);
+    setIsChecking(true);
+    setProgress({ done: 0, total: sources.length });
+
+    const results = await checkSourcesHealth(sources, {
+      keyword: keyword.trim() || undefined,
+      direct,
+      timeoutMs: Math.max(1, parseInt(timeoutSeconds, 10) || 10) * 1000,
+      concurrency: 2,
+      signal: abortController.signal,
+      onProgress: (done, total) => setProgress({ done, total }),
+    });
+
+    onResults(results);
+    setIsChecking(false);
+    setController(null);
+  };
+
+  const counts = sources.reduce((acc, source) => {
+    const status = health.get(source.jsonUrl)?.status;
+    if (status) acc[status] = (acc[status] ?? 0) + 1;
+    return acc;
+  }, {} as Partial<Record<HealthStatus, number>>);
+
+  return (
+    <div className="mb-6 bg-white border border-gray-200 rounded-lg p-3 sm:p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <HeartPulse className="text-rose-600" size={18} />
+          <h2 className="font-semibold text-gray-800 text-sm sm:text-base">
+            Health Check ({sources.length} source file{sources.length === 1 ? '' : 's'})
+          </h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 text-xs text-gray-500">
+        <label className="flex flex-col gap-1">
+          Test search keyword (optional)
+          <input value={keyword} onChange={(e) => setKeyword(e.target.value)} disabled={isChecking}
+            placeholder="e.g. 斗破苍穹" className={`${inputClass} w-40`} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Timeout (s)
+          <input type="number" min={1} value={timeoutSeconds} disabled={isChecking}
+            onChange={(e) => setTimeoutSeconds(e.target.value)} className={`${inputClass} w-16`} />
+        </label>
+        <label className="flex items-center gap-1 pb-1" title="Request sites directly instead of through proxies (needs CORS, e.g. a local mock site)">
+          <input type="checkbox" checked={direct} disabled={isChecking}
+            onChange={(e) => setDirect(e.target.checked)} className="accent-blue-600" />
+          Direct requests
+        </label>
+
+        {isChecking ? (
+          <button
+            onClick={() => controller?.abort()}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 transition-colors"
+          >
+            <Square size={14} /> Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={sources.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            <Play size={14} /> Start Check
+          </button>
+        )}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+        {isChecking && (
+          <span className="flex items-center gap-1 text-gray-500">
+            <Loader2 size={12} className="animate-spin" /> Checked {progress.done}/{progress.total}
+          </span>
+        )}
+        <span className="text-green-700">{counts[HealthStatus.HEALTHY] ?? 0} healthy</span>
+        <span className="text-yellow-700">{counts[HealthStatus.PARTIAL] ?? 0} partial</span>
+        <span className="text-red-700">{counts[HealthStatus.DEAD] ?? 0} dead</span>
+        <span className="text-gray-500">{counts[HealthStatus.ERROR] ?? 0} JSON errors</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { TextRange } from '../types';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: TextRange[]; // Sorted, non-overlapping
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges = [] }) => {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-yellow-200 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { QrCode as QrIcon, X, Loader2, Copy, Check, Smartphone, AlertCircle } from 'lucide-react';
+import { BookSource, CopyState, LegadoContentKind, MergeStrategy } from '../types';
+import { QrCode } from './QrCode';
+import { fetchSourceJsonBatch, mergeLegadoSources, getImportLink, getInlineImportLink, chunkInlineImportLinks } from '../services/legadoService';
+import { getQrByteCapacity, QrErrorCorrection } from '../services/qrCode';
+import { copyText } from '../services/exportService';
+
+interface ImportLinkPanelProps {
+  sources: BookSource[];
+  importKind: LegadoContentKind;
+  onClose: () => void;
+}
+
+// Past this many per-source codes the grid stops being scannable one by one
+const MAX_INDIVIDUAL_CODES = 24;
+// Inline links carry whole rule JSON, so their codes use the lowest error correction to fit the most.
+// Past version 20 (97 modules a side) phones struggle to scan a code off a screen.
+const INLINE_QR_VERSION = 20;
+const INLINE_QR_CAPACITY = getQrByteCapacity(QrErrorCorrection.LOW, INLINE_QR_VERSION);
+// About three pixels per module at the largest version
+const INLINE_QR_SIZE = (INLINE_QR_VERSION * 4 + 17 + 8) * 3;
+
+export const ImportLinkPanel: React.FC<ImportLinkPanelProps> = ({ sources, importKind, onClose }) => {
+  const [combinedLink, setCombinedLink] = useState<string | null>(null);
+  const [qrLinks, setQrLinks] = useState<string[]>([]); // The combined link split to fit QR codes
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [buildNote, setBuildNote] = useState<string | null>(null);
+  const [copyState, setCopyState] = useState<CopyState>('idle');
+
+  // Combining needs the JSON content, which we only know how to merge for book sources
+  const canCombine = importKind === 'bookSource' && sources.length > 1;
+
+  const handleBuild = async () => {
+    setIsBuilding(true);
+    const fetched = await fetchSourceJsonBatch(sources);
+    const report = mergeLegadoSources(fetched, MergeStrategy.NEWEST);
+    const { links, oversized } = chunkInlineImportLinks(report.merged, INLINE_QR_CAPACITY, importKind);
+    setCombinedLink(report.merged.length > 0 ? getInlineImportLink(report.merged, importKind) : null);
+    setQrLinks(links);
+
+    const notes: string[] = [];
+    if (report.failed.length > 0) {
+      notes.push(`${report.failed.length} source file${report.failed.length === 1 ? '' : 's'} could not be downloaded and ${report.failed.length === 1 ? 'is' : 'are'} missing.`);
+    }
+    if (links.length > 1) {
+      notes.push(`Too much for one QR code, so it's split into ${links.length} codes; scan each in turn.`);
+    }
+    if (oversized.length > 0) {
+      notes.push(`${oversized.length} source${oversized.length === 1 ? ' is' : 's are'} too large for any code (${oversized.map(entry => entry.bookSourceName).join(', ')}); use the link or the per-file codes below.`);
+    }
+    setBuildNote(notes.length > 0 ? notes.join(' ') : null);
+    setIsBuilding(false);
+  };
+
+  const handleCopy = async () => {
+    if (!combinedLink) return;
+    setCopyState(await copyText(combinedLink) ? 'copied' : 'failed');
+    setTimeout(() => setCopyState('idle'), 2000);
+  };
+
+  return (
+    <div className="mb-6 bg-white border border-gray-200 rounded-lg p-3 sm:p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <QrIcon className="text-blue-600" size={18} />
+          <h2 className="font-semibold text-gray-800 text-sm sm:text-base">
+            Legado Import ({sources.length} source file{sources.length === 1 ? '' : 's'})
+          </h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      {canCombine && (
+        <div className="mb-4 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={handleBuild}
+              disabled={isBuilding}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {isBuilding && <Loader2 size={14} className="animate-spin" />}
+              {combinedLink ? 'Rebuild combined link' : 'Build combined link'}
+            </button>
+            {combinedLink && (
+              <>
+                <a href={combinedLink}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50">
+                  <Smartphone size={14} /> Open in Legado
+                </a>
+                <button onClick={handleCopy}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50">
+                  {copyState === 'copied' ? <Check size={14} /> : copyState === 'failed' ? <AlertCircle size={14} /> : <Copy size={14} />}
+                  {' '}{copyState === 'copied' ? 'Copied' : copyState === 'failed' ? 'Copy failed' : 'Copy link'}
+                </button>
+              </>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            Downloads and merges every selected file into one link. A scannable QR code holds about {Math.floor(INLINE_QR_CAPACITY / 100) * 100} bytes,
+            often a single source, so larger sets are split across several codes.
+          </p>
+          {buildNote && <p className="text-xs text-orange-600">{buildNote}</p>}
+          {qrLinks.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-3">
+              {qrLinks.map((link, i) => (
+                <div key={i} className="flex flex-col items-center gap-1">
+                  <QrCode text={link} size={INLINE_QR_SIZE} errorCorrection={QrErrorCorrection.LOW} />
+                  {qrLinks.length > 1 && <span className="text-[10px] text-gray-500">Code {i + 1} of {qrLinks.length}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+        {sources.slice(0, MAX_INDIVIDUAL_CODES).map(source => (
+          <a key={source.jsonUrl} href={getImportLink(source.jsonUrl, importKind)}
+            className="flex flex-col items-center gap-1 p-2 border border-gray-100 rounded-md hover:bg-gray-50">
+            <QrCode text={getImportLink(source.jsonUrl, importKind)} size={120} />
+            <span className="text-[10px] text-gray-600 text-center line-clamp-2">{source.title}</span>
+          </a>
+        ))}
+      </div>
+      {sources.length > MAX_INDIVIDUAL_CODES && (
+        <p className="mt-2 text-xs text-gray-500">
+          Showing the first {MAX_INDIVIDUAL_CODES} codes. Use the combined link or codes for the rest.
+        </p>
+      )}
+    </div>
+  );
+};
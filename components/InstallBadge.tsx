@@ -0,0 +1,35 @@
+import React from 'react';
+import { InstallStatus, SourceInstallState } from '../types';
+
+const STYLES: Record<InstallStatus, { label: string; className: string }> = {
+  [InstallStatus.INSTALLED]: { label: 'Installed', className: 'bg-gray-100 text-gray-600' },
+  [InstallStatus.UPDATE_AVAILABLE]: { label: 'Update', className: 'bg-blue-100 text-blue-700' },
+  [InstallStatus.NOT_INSTALLED]: { label: 'Not installed', className: 'bg-green-100 text-green-700' },
+  [InstallStatus.ERROR]: { label: 'No JSON', className: 'bg-gray-100 text-gray-500' },
+};
+
+const ENTRY_LABELS: Record<InstallStatus, string> = {
+  [InstallStatus.INSTALLED]: 'installed',
+  [InstallStatus.UPDATE_AVAILABLE]: 'newer version',
+  [InstallStatus.NOT_INSTALLED]: 'not installed',
+  [InstallStatus.ERROR]: 'error',
+};
+
+// Multi-line tooltip listing each contained source against the backup
+const describe = (state: SourceInstallState): string => {
+  if (state.error) return state.error;
+  return state.entries.map(entry => `${entry.bookSourceName}: ${ENTRY_LABELS[entry.status]}`).join('\n');
+};
+
+export const InstallBadge: React.FC<{ state: SourceInstallState }> = ({ state }) => {
+  const style = STYLES[state.status];
+  const pending = state.entries.filter(entry => entry.status !== InstallStatus.INSTALLED).length;
+  return (
+    <span
+      className={`px-1.5 py-0.5 text-[10px] font-medium rounded whitespace-nowrap ${style.className}`}
+      title={describe(state)}
+    >
+      {style.label}{state.status !== InstallStatus.INSTALLED && state.entries.length > 1 && ` ${pending}/${state.entries.length}`}
+    </span>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState, useRef } from 'react';
+import { FileUp, ClipboardPaste, AlertCircle } from 'lucide-react';
+import { parsePage, mergeScrapeResults } from '../services/scraperService';
+import { ScrapeResult, SiteAdapter } from '../types';
+
+interface ManualImportProps {
+  adapter: SiteAdapter;
+  onImport: (result: ScrapeResult) => void;
+}
+
+export const ManualImport: React.FC<ManualImportProps> = ({ adapter, onImport }) => {
+  const [html, setHtml] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handlePasteParse = async () => {
+    if (!html.trim()) return;
+    setFileErrors([]);
+    onImport(await parsePage(html, Date.now(), adapter));
+  };
+
+  // Each file is parsed on its own so one bad page doesn't hide the others
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    setIsReading(true);
+    const files = Array.from(fileList);
+    const results: ScrapeResult[] = [];
+    const errors: string[] = [];
+
+    for (const file of files) {
+      try {
+        const text = await file.text();
+        // A saved page's relative dates are relative to when it was saved
+        const result = await parsePage(text, file.lastModified || Date.now(), adapter);
+        if (!result.success) {
+          errors.push(`${file.name}: ${result.error}`);
+        }
+        results.push(result);
+      } catch (e: any) {
+        errors.push(`${file.name}: ${e.message}`);
+      }
+    }
+
+    setFileErrors(errors);
+    setIsReading(false);
+    onImport(mergeScrapeResults(results));
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div className="mb-6 bg-white border border-gray-200 rounded-lg p-3 sm:p-4 shadow-sm">
+      <div className="flex items-center gap-2 mb-3">
+        <ClipboardPaste className="text-blue-600" size={18} />
+        <h2 className="font-semibold text-gray-800 text-sm sm:text-base">Manual Mode</h2>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Open the listing page in your browser, save it (or view source and copy everything), then paste or drop it here.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="flex flex-col gap-2">
+          <textarea
+            value={html}
+            onChange={(e) => setHtml(e.target.value)}
+            placeholder="Paste raw HTML of a listing page..."
+            className="w-full h-32 p-2 text-xs font-mono border border-gray-300 rounded-lg focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 resize-y"
+          />
+          <button
+            onClick={handlePasteParse}
+            disabled={!html.trim()}
+            className="self-start px-3 py-1.5 text-xs sm:text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Parse HTML
+          </button>
+        </div>
+
+        <div
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+          className={`h-32 flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+            isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          <FileUp className="text-gray-400" size={24} />
+          <span className="text-xs text-gray-500 text-center px-2">
+            {isReading ? 'Reading files...' : 'Drop saved index.html files here, or click to choose (multiple pages allowed)'}
+          </span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".html,.htm,text/html"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {fileErrors.length > 0 && (
+        <div className="mt-3 text-xs text-red-700 bg-red-50 border border-red-100 rounded-md p-2 space-y-1">
+          {fileErrors.map((err, idx) => (
+            <div key={idx} className="flex items-start gap-1">
+              <AlertCircle size={12} className="mt-0.5 shrink-0" />
+              <span>{err}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
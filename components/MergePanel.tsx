@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Combine, X, Download, AlertTriangle, AlertCircle, Loader2 } from 'lucide-react';
+import { BookSource, MergeReport, MergeStrategy, SourceHealth } from '../types';
+import { fetchSourceJsonBatch, mergeLegadoSources } from '../services/legadoService';
+import { downloadTextFile, fileDateStamp } from '../services/exportService';
+
+interface MergePanelProps {
+  sources: BookSource[];
+  health: Map<string, SourceHealth>;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toLocaleString() : 'no timestamp';
+
+export const MergePanel: React.FC<MergePanelProps> = ({ sources, health, onClose }) => {
+  const [strategy, setStrategy] = useState<MergeStrategy>(MergeStrategy.NEWEST);
+  const [isMerging, setIsMerging] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [report, setReport] = useState<MergeReport | null>(null);
+  const [workingOnly, setWorkingOnly] = useState(false);
+
+  // Sites that answered in the last health check, keyed by bookSourceUrl
+  const aliveUrls = new Set<string>();
+  const deadUrls = new Set<string>();
+  health.forEach(sourceHealth => sourceHealth.entries.forEach(entry =>
+    (entry.site.ok ? aliveUrls : deadUrls).add(entry.bookSourceUrl)
+  ));
+  const hasHealthData = aliveUrls.size + deadUrls.size > 0;
+
+  const exported = report
+    ? (workingOnly ? report.merged.filter(entry => aliveUrls.has(entry.bookSourceUrl)) : report.merged)
+    : [];
+
+  const handleMerge = async () => {
+    setIsMerging(true);
+    setReport(null);
+    setProgress({ done: 0, total: sources.length });
+
+    const fetched = await fetchSourceJsonBatch(sources, (done, total) => setProgress({ done, total }));
+    setReport(mergeLegadoSources(fetched, strategy));
+    setIsMerging(false);
+  };
+
+  const handleDownload = () => {
+    if (!report) return;
+    downloadTextFile(
+      `bookSource-merged-${fileDateStamp()}.json`,
+      JSON.stringify(exported, null, 2),
+      'application/json'
+    );
+  };
+
+  return (
+    <div className="mb-6 bg-white border border-gray-200 rounded-lg p-3 sm:p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Combine className="text-blue-600" size={18} />
+          <h2 className="font-semibold text-gray-800 text-sm sm:text-base">
+            Merge {sources.length} source file{sources.length === 1 ? '' : 's'}
+          </h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-3 text-sm text-gray-700">
+        <span className="text-xs text-gray-500">On duplicate bookSourceUrl keep:</span>
+        <label className="flex items-center gap-1 text-xs">
+          <input type="radio" checked={strategy === MergeStrategy.NEWEST} disabled={isMerging}
+            onChange={() => setStrategy(MergeStrategy.NEWEST)} />
+          Newest lastUpdateTime
+        </label>
+        <label className="flex items-center gap-1 text-xs">
+          <input type="radio" checked={strategy === MergeStrategy.FIRST} disabled={isMerging}
+            onChange={() => setStrategy(MergeStrategy.FIRST)} />
+          First seen
+        </label>
+        {hasHealthData && (
+          <label className="flex items-center gap-1 text-xs" title="Uses the results of the last health check">
+            <input type="checkbox" checked={workingOnly} onChange={(e) => setWorkingOnly(e.target.checked)} className="accent-blue-600" />
+            Only sites that passed the health check
+          </label>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleMerge}
+          disabled={isMerging || sources.length === 0}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {isMerging ? <Loader2 size={14} className="animate-spin" /> : <Combine size={14} />}
+          {isMerging ? `Fetching ${progress.done}/${progress.total}` : 'Fetch & Merge'}
+        </button>
+        {report && exported.length > 0 && (
+          <button
+            onClick={handleDownload}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Download size={14} />
+            Download JSON ({exported.length})
+          </button>
+        )}
+      </div>
+
+      {report && (
+        <div className="mt-4 space-y-3 text-xs">
+          <p className="text-gray-600">
+            {report.totalEntries} entries from {sources.length - report.failed.length} files merged into{' '}
+            <strong>{report.merged.length}</strong> unique sources.
+          </p>
+
+          {report.conflicts.length > 0 && (
+            <div>
+              <h3 className="flex items-center gap-1 font-semibold text-orange-700 mb-1">
+                <AlertTriangle size={12} />
+                {report.conflicts.length} conflict{report.conflicts.length === 1 ? '' : 's'}
+              </h3>
+              <ul className="max-h-48 overflow-y-auto border border-orange-100 rounded-md divide-y divide-orange-50">
+                {report.conflicts.map(conflict => (
+                  <li key={conflict.bookSourceUrl} className="p-2 space-y-0.5">
+                    <div className="font-mono text-gray-700 truncate" title={conflict.bookSourceUrl}>{conflict.bookSourceUrl}</div>
+                    <div className="text-green-700">
+                      Kept: {conflict.kept.bookSourceName} (ID {conflict.kept.sourceId}, {formatTime(conflict.kept.lastUpdateTime)})
+                    </div>
+                    {conflict.dropped.map((dropped, idx) => (
+                      <div key={idx} className="text-gray-500">
+                        Dropped: {dropped.bookSourceName} (ID {dropped.sourceId}, {formatTime(dropped.lastUpdateTime)})
+                      </div>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.failed.length > 0 && (
+            <div>
+              <h3 className="flex items-center gap-1 font-semibold text-red-700 mb-1">
+                <AlertCircle size={12} />
+                {report.failed.length} failed download{report.failed.length === 1 ? '' : 's'}
+              </h3>
+              <ul className="max-h-32 overflow-y-auto border border-red-100 rounded-md divide-y divide-red-50">
+                {report.failed.map(({ source, error }) => (
+                  <li key={source.jsonUrl} className="p-2">
+                    <span className="font-medium text-gray-700">{source.title}</span>{' '}
+                    <span className="text-gray-400">(ID {source.id})</span>
+                    <div className="text-red-600 break-words">{error}</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
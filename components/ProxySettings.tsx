@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import { ProxyAdapter, ProxyConfig } from '../types';
+import {
+  getProxies, saveProxies, resetProxies, getProxyStats, resetProxyStats,
+  subscribeProxies, getAverageLatency,
+} from '../services/proxyService';
+
+const inputClass = "px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500";
+
+export const ProxySettings: React.FC = () => {
+  const [proxies, setProxies] = useState(getProxies());
+  const [stats, setStats] = useState(getProxyStats());
+  const [draft, setDraft] = useState({ name: '', template: '', adapter: ProxyAdapter.RAW, timeoutMs: '15000' });
+
+  useEffect(() => subscribeProxies(() => {
+    setProxies(getProxies());
+    setStats(getProxyStats());
+  }), []);
+
+  const updateProxy = (id: string, changes: Partial<ProxyConfig>) => {
+    saveProxies(proxies.map(p => (p.id === id ? { ...p, ...changes } : p)));
+  };
+
+  const removeProxy = (id: string) => {
+    saveProxies(proxies.filter(p => p.id !== id));
+  };
+
+  const addProxy = () => {
+    if (!draft.name.trim() || !draft.template.trim()) return;
+    saveProxies([
+      ...proxies,
+      {
+        id: `custom-${Date.now()}`,
+        name: draft.name.trim(),
+        template: draft.template.trim(),
+        adapter: draft.adapter,
+        timeoutMs: Math.max(1000, parseInt(draft.timeoutMs, 10) || 15000),
+        enabled: true,
+      },
+    ]);
+    setDraft({ name: '', template: '', adapter: ProxyAdapter.RAW, timeoutMs: '15000' });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-800">Proxies</h3>
+        <div className="flex gap-2">
+          <button onClick={resetProxyStats} className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800">
+            <RotateCcw size={12} /> Reset stats
+          </button>
+          <button onClick={resetProxies} className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800">
+            <RotateCcw size={12} /> Restore defaults
+          </button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-100 border border-gray-100 rounded-md">
+        {proxies.map(proxy => {
+          const proxyStats = stats[proxy.id];
+          const successes = proxyStats?.successes ?? 0;
+          const attempts = successes + (proxyStats?.failures ?? 0);
+          const latency = getAverageLatency(proxyStats);
+          return (
+            <li key={proxy.id} className="p-2 text-xs space-y-1">
+              <div className="flex items-center gap-2">
+                <input type="checkbox" checked={proxy.enabled} className="accent-blue-600"
+                  onChange={(e) => updateProxy(proxy.id, { enabled: e.target.checked })} />
+                <span className="font-medium text-gray-800">{proxy.name}</span>
+                <span className="ml-auto text-gray-500">
+                  {attempts > 0
+                    ? `${Math.round((successes / attempts) * 100)}% ok · ${attempts} req${latency !== undefined ? ` · ${latency}ms` : ''}`
+                    : 'untried'}
+                </span>
+                {!proxy.builtIn && (
+                  <button onClick={() => removeProxy(proxy.id)} className="text-gray-400 hover:text-red-600" title="Remove proxy">
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+              <div className="font-mono text-gray-500 truncate" title={proxy.template}>{proxy.template}</div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select value={proxy.adapter} className={inputClass}
+                  onChange={(e) => updateProxy(proxy.id, { adapter: e.target.value as ProxyAdapter })}>
+                  <option value={ProxyAdapter.RAW}>Raw text</option>
+                  <option value={ProxyAdapter.ALLORIGINS_JSON}>AllOrigins JSON</option>
+                </select>
+                <label className="flex items-center gap-1 text-gray-500">
+                  Timeout
+                  <input type="number" min={1000} step={1000} value={proxy.timeoutMs} className={`${inputClass} w-20`}
+                    onChange={(e) => updateProxy(proxy.id, { timeoutMs: Math.max(1000, parseInt(e.target.value, 10) || 1000) })} />
+                  ms
+                </label>
+              </div>
+              {proxyStats?.lastError && (
+                <div className="text-red-500 truncate" title={proxyStats.lastError}>Last error: {proxyStats.lastError}</div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="border border-dashed border-gray-300 rounded-md p-2 space-y-2">
+        <div className="text-xs font-medium text-gray-700">Add proxy or local relay</div>
+        <div className="flex flex-wrap gap-2">
+          <input placeholder="Name" value={draft.name} className={`${inputClass} w-28`}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+          <input placeholder="http://localhost:8080/?url={encodedUrl}" value={draft.template} className={`${inputClass} flex-1 min-w-[200px] font-mono`}
+            onChange={(e) => setDraft({ ...draft, template: e.target.value })} />
+          <select value={draft.adapter} className={inputClass}
+            onChange={(e) => setDraft({ ...draft, adapter: e.target.value as ProxyAdapter })}>
+            <option value={ProxyAdapter.RAW}>Raw text</option>
+            <option value={ProxyAdapter.ALLORIGINS_JSON}>AllOrigins JSON</option>
+          </select>
+          <input type="number" min={1000} step={1000} value={draft.timeoutMs} className={`${inputClass} w-20`}
+            onChange={(e) => setDraft({ ...draft, timeoutMs: e.target.value })} />
+          <button onClick={addProxy} disabled={!draft.name.trim() || !draft.template.trim()}
+            className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
+            <Plus size={12} /> Add
+          </button>
+        </div>
+        <p className="text-[10px] text-gray-400">
+          Use {'{url}'} for the raw target URL or {'{encodedUrl}'} for a URL-encoded one. Without a placeholder the target is appended.
+        </p>
+      </div>
+    </div>
+  );
+};
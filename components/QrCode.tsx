@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import { encodeQr, QrErrorCorrection } from '../services/qrCode';
+
+interface QrCodeProps {
+  text: string;
+  size?: number; // Rendered width/height in px
+  errorCorrection?: QrErrorCorrection; // LOW fits the most data, for long inline links
+  className?: string;
+}
+
+// Light modules around the code, as required by most scanners
+const QUIET_ZONE = 4;
+
+export const QrCode: React.FC<QrCodeProps> = ({ text, size = 160, errorCorrection = QrErrorCorrection.MEDIUM, className }) => {
+  const modules = useMemo(() => encodeQr(text, errorCorrection), [text, errorCorrection]);
+
+  if (!modules) {
+    return (
+      <div className={`flex items-center justify-center text-[10px] text-gray-400 text-center p-2 ${className ?? ''}`}
+        style={{ width: size, height: size }}>
+        Too much data for a QR code
+      </div>
+    );
+  }
+
+  const dimension = modules.length + QUIET_ZONE * 2;
+  // One path for all dark modules keeps large codes cheap to render
+  const path = modules.flatMap((row, y) =>
+    row.map((dark, x) => (dark ? `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z` : ''))
+  ).join('');
+
+  return (
+    <svg
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { SourceQuality } from '../types';
+import { GOOD_QUALITY, FAIR_QUALITY } from '../services/lintService';
+
+const scoreClass = (score: number): string => {
+  if (score >= GOOD_QUALITY) return 'bg-green-100 text-green-700';
+  if (score >= FAIR_QUALITY) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-700';
+};
+
+// Multi-line tooltip listing each contained source's issues
+const describe = (quality: SourceQuality): string => {
+  if (quality.error) return quality.error;
+  return quality.entries.map(entry => {
+    const issues = entry.issues.map(issue => `  ${issue.field ? `${issue.field}: ` : ''}${issue.message}`);
+    return [`${entry.bookSourceName}: ${entry.score}`, ...issues].join('\n');
+  }).join('\n');
+};
+
+export const QualityBadge: React.FC<{ quality: SourceQuality }> = ({ quality }) => (
+  <span
+    className={`px-1.5 py-0.5 text-[10px] font-medium rounded whitespace-nowrap ${
+      quality.score === undefined ? 'bg-gray-100 text-gray-500' : scoreClass(quality.score)
+    }`}
+    title={describe(quality)}
+  >
+    {quality.score === undefined ? 'No JSON' : `Q ${quality.score}`}
+  </span>
+);
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { ShieldCheck, X, Play, Loader2 } from 'lucide-react';
+import { BookSource, LintIssue, SourceQuality } from '../types';
+import { lintSources, GOOD_QUALITY, FAIR_QUALITY } from '../services/lintService';
+
+interface QualityPanelProps {
+  sources: BookSource[];
+  quality: Map<string, SourceQuality>;
+  onResults: (results: Map<string, SourceQuality>) => void;
+  onClose: () => void;
+}
+
+const ISSUE_LABELS: Record<LintIssue['code'], string> = {
+  'missing-field': 'missing required fields',
+  'invalid-regex': 'invalid regexes',
+  'insecure-url': 'plain http URLs',
+  'heavy-js': 'heavy JavaScript',
+  'disabled': 'disabled',
+  'login-required': 'login required',
+};
+
+export const QualityPanel: React.FC<QualityPanelProps> = ({ sources, quality, onResults, onClose }) => {
+  const [isChecking, setIsChecking] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+
+  const handleStart = async () => {
+    setIsChecking(true);
+    setProgress({ done: 0, total: sources.length });
+    onResults(await lintSources(sources, (done, total) => setProgress({ done, total })));
+    setIsChecking(false);
+  };
+
+  const scored = sources.map(source => quality.get(source.jsonUrl)).filter((result): result is SourceQuality => !!result);
+  const bands = { good: 0, fair: 0, poor: 0, error: 0 };
+  const issueCounts = new Map<LintIssue['code'], number>();
+  scored.forEach(result => {
+    if (result.score === undefined) bands.error++;
+    else if (result.score >= GOOD_QUALITY) bands.good++;
+    else if (result.score >= FAIR_QUALITY) bands.fair++;
+    else bands.poor++;
+    result.entries.forEach(entry => new Set<LintIssue['code']>(entry.issues.map(issue => issue.code)).forEach(code =>
+      issueCounts.set(code, (issueCounts.get(code) ?? 0) + 1)
+    ));
+  });
+
+  return (
+    <div className="mb-6 bg-white border border-gray-200 rounded-lg p-3 sm:p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="text-emerald-600" size={18} />
+          <h2 className="font-semibold text-gray-800 text-sm sm:text-base">
+            Rule Quality ({sources.length} source file{sources.length === 1 ? '' : 's'})
+          </h2>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <p className="mb-3 text-xs text-gray-500">
+        Checks each Legado entry for missing required fields, invalid regexes, plain http URLs, heavy JavaScript,
+        and disabled or login-only sources. Sources whose JSON is already cached are scored automatically.
+      </p>
+
+      <button
+        onClick={handleStart}
+        disabled={isChecking || sources.length === 0}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+      >
+        {isChecking ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+        {isChecking ? `Fetching ${progress.done}/${progress.total}` : 'Fetch & Lint'}
+      </button>
+
+      <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+        <span className="text-green-700">{bands.good} good ({GOOD_QUALITY}+)</span>
+        <span className="text-yellow-700">{bands.fair} fair</span>
+        <span className="text-red-700">{bands.poor} poor (under {FAIR_QUALITY})</span>
+        <span className="text-gray-500">{bands.error} JSON errors</span>
+      </div>
+
+      {issueCounts.size > 0 && (
+        <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600">
+          {Array.from(issueCounts).map(([code, count]) => (
+            <span key={code}>{count} with {ISSUE_LABELS[code]}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Download, Copy, Check, QrCode, FolderPlus, X, AlertCircle } from 'lucide-react';
+import { BookSource, CopyState, ExportFormat, SourceCollection } from '../types';
+import { formatSources, downloadSources, copyText } from '../services/exportService';
+import { addToCollection, createCollection } from '../services/collectionService';
+
+interface SelectionToolbarProps {
+  selectedCount: number;
+  exportSources: BookSource[]; // The selection, or every filtered source when nothing is selected
+  onSelectAll: () => void;
+  onSelectNone: () => void;
+  onInvert: () => void;
+  onShowImport: () => void;
+  collections: SourceCollection[];
+  onLoadDetails?: (sources: BookSource[]) => Promise<BookSource[] | null>; // Fills in detail-page fields before export; null when cancelled
+  onCancelDetails?: () => void;
+  detailsProgress?: { done: number; total: number } | null;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'CSV',
+  [ExportFormat.MARKDOWN]: 'Markdown table',
+  [ExportFormat.JSON]: 'JSON array',
+  [ExportFormat.URLS]: 'URL list',
+};
+
+const NEW_COLLECTION = '__new__';
+
+const linkButtonClass = "text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50";
+
+export const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  selectedCount, exportSources, onSelectAll, onSelectNone, onInvert, onShowImport, collections, onLoadDetails, onCancelDetails, detailsProgress,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>(ExportFormat.CSV);
+  const [copyState, setCopyState] = useState<CopyState>('idle');
+  const [added, setAdded] = useState<string | null>(null);
+  const [withDetails, setWithDetails] = useState(false);
+
+  const prepare = async (): Promise<BookSource[] | null> =>
+    withDetails && onLoadDetails && format !== ExportFormat.URLS ? onLoadDetails(exportSources) : exportSources;
+
+  const handleDownload = async () => {
+    const prepared = await prepare();
+    if (prepared) downloadSources(prepared, format);
+  };
+
+  const handleCopy = async () => {
+    const prepared = await prepare();
+    if (!prepared) return;
+    setCopyState(await copyText(formatSources(prepared, format)) ? 'copied' : 'failed');
+    setTimeout(() => setCopyState('idle'), 2000);
+  };
+
+  const handleAddToCollection = (value: string) => {
+    if (!value) return;
+    let target = collections.find(c => c.id === value);
+    if (value === NEW_COLLECTION) {
+      const name = window.prompt('Name for the new collection');
+      if (!name?.trim()) return;
+      target = createCollection(name);
+    }
+    if (!target) return;
+    addToCollection(target.id, exportSources);
+    setAdded(target.name);
+    setTimeout(() => setAdded(null), 2000);
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-x-3 gap-y-2 bg-white border border-gray-200 rounded-lg px-3 py-2">
+      <span className="text-xs text-gray-600 font-medium">
+        {selectedCount > 0 ? `${selectedCount} selected` : 'None selected'}
+      </span>
+      <button onClick={onSelectAll} className={linkButtonClass}>Select all</button>
+      <button onClick={onSelectNone} disabled={selectedCount === 0} className={linkButtonClass}>None</button>
+      <button onClick={onInvert} className={linkButtonClass}>Invert</button>
+
+      <div className="ml-auto flex items-center gap-2">
+        <label className="flex items-center gap-1 text-xs text-gray-500" title="Save these sources to a collection">
+          <FolderPlus size={12} />
+          <select
+            value=""
+            onChange={(e) => handleAddToCollection(e.target.value)}
+            disabled={exportSources.length === 0}
+            className="px-2 py-1 text-xs border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+          >
+            <option value="">{added ? `Added to ${added}` : 'Add to...'}</option>
+            {collections.map(collection => (
+              <option key={collection.id} value={collection.id}>{collection.name}</option>
+            ))}
+            <option value={NEW_COLLECTION}>New collection...</option>
+          </select>
+        </label>
+        <button
+          onClick={onShowImport}
+          disabled={exportSources.length === 0}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-100 rounded-md hover:bg-blue-100 disabled:opacity-50"
+          title="Legado import links and QR codes"
+        >
+          <QrCode size={12} /> Import QR
+        </button>
+        <span className="text-xs text-gray-500 hidden sm:inline">
+          Export {selectedCount > 0 ? 'selection' : `all ${exportSources.length}`} as
+        </span>
+        {onLoadDetails && (
+          <label className="flex items-center gap-1 text-xs text-gray-600" title="Fetch uploader, description and counts from each detail page first">
+            <input
+              type="checkbox"
+              checked={withDetails}
+              onChange={(e) => setWithDetails(e.target.checked)}
+              className="accent-blue-600"
+            />
+            {detailsProgress ? `Details ${detailsProgress.done}/${detailsProgress.total}` : '+ details'}
+          </label>
+        )}
+        {detailsProgress && onCancelDetails && (
+          <button onClick={onCancelDetails} className="text-gray-400 hover:text-red-600" title="Stop loading details">
+            <X size={12} />
+          </button>
+        )}
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="px-2 py-1 text-xs border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:border-blue-500"
+        >
+          {Object.values(ExportFormat).map(value => (
+            <option key={value} value={value}>{FORMAT_LABELS[value]}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleDownload}
+          disabled={exportSources.length === 0 || !!detailsProgress}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          title="Download file"
+        >
+          <Download size={12} /> File
+        </button>
+        <button
+          onClick={handleCopy}
+          disabled={exportSources.length === 0 || !!detailsProgress}
+          className={`flex items-center gap-1 px-2 py-1 text-xs font-medium border rounded-md disabled:opacity-50 ${
+            copyState === 'copied' ? 'bg-green-100 text-green-700 border-green-200'
+              : copyState === 'failed' ? 'bg-red-50 text-red-700 border-red-200'
+              : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'
+          }`}
+          title="Copy to clipboard"
+        >
+          {copyState === 'copied' ? <Check size={12} /> : copyState === 'failed' ? <AlertCircle size={12} /> : <Copy size={12} />}
+          {' '}{copyState === 'copied' ? 'Copied' : copyState === 'failed' ? 'Copy failed' : 'Copy'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Settings, X } from 'lucide-react';
+import { ProxySettings } from './ProxySettings';
+import { CacheSettings } from './CacheSettings';
+import { AiSettings } from './AiSettings';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => (
+  <div className="mb-6 bg-white border border-gray-200 rounded-lg p-3 sm:p-4 shadow-sm">
+    <div className="flex items-center justify-between mb-3">
+      <div className="flex items-center gap-2">
+        <Settings className="text-gray-600" size={18} />
+        <h2 className="font-semibold text-gray-800 text-sm sm:text-base">Settings</h2>
+      </div>
+      <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+        <X size={18} />
+      </button>
+    </div>
+    <div className="space-y-6">
+      <ProxySettings />
+      <CacheSettings />
+      <AiSettings />
+    </div>
+  </div>
+);
@@ -1,43 +1,161 @@
-import React, { useState } from 'react';
-import { BookSource } from '../types';
-import { Copy, Check, ExternalLink, FileJson, Calendar } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { BookSource, CopyState, ChangeKind, SourceHealth, SourceInstallState, SourceQuality, LegadoContentKind, SourceClassification, TextRange } from '../types';
+import { Copy, Check, ExternalLink, FileJson, Calendar, ChevronDown, ChevronUp, QrCode as QrIcon, Smartphone, Star, User, Layers, Download, Heart, AlertCircle } from 'lucide-react';
+import { SourcePreview } from './SourcePreview';
+import { HealthBadge } from './HealthBadge';
+import { InstallBadge } from './InstallBadge';
+import { QualityBadge } from './QualityBadge';
+import { QrCode } from './QrCode';
+import { HighlightedText } from './HighlightedText';
+import { getImportLink } from '../services/legadoService';
+import { copyText } from '../services/exportService';
 
 interface SourceCardProps {
   source: BookSource;
+  selected?: boolean;
+  onToggleSelect?: (jsonUrl: string) => void;
+  change?: ChangeKind;
+  health?: SourceHealth;
+  installState?: SourceInstallState;
+  quality?: SourceQuality;
+  canPreview?: boolean;
+  importKind?: LegadoContentKind;
+  classification?: SourceClassification;
+  highlights?: TextRange[];
+  favorite?: boolean;
+  onToggleFavorite?: (source: BookSource) => void;
+  onVisible?: (source: BookSource) => void; // Fired once when a card without details scrolls into view
 }
 
-export const SourceCard: React.FC<SourceCardProps> = ({ source }) => {
-  const [copied, setCopied] = useState(false);
+// 12000 -> "1.2万" keeps counters short on small cards
+const formatCount = (value: number): string =>
+  value >= 10000 ? `${(value / 10000).toFixed(value >= 100000 ? 0 : 1)}万` : String(value);
 
-  const handleCopy = () => {
-    navigator.clipboard.writeText(source.jsonUrl);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+export const SourceCard: React.FC<SourceCardProps> = ({ source, selected = false, onToggleSelect, change, health, installState, quality, canPreview = true, importKind, classification, highlights, favorite = false, onToggleFavorite, onVisible }) => {
+  const [copyState, setCopyState] = useState<CopyState>('idle');
+  const [expanded, setExpanded] = useState(false);
+  const [showQr, setShowQr] = useState(false);
+  const [copyLinkState, setCopyLinkState] = useState<CopyState>('idle');
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = cardRef.current;
+    if (!onVisible || source.detailsFetchedAt || !element || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        observer.disconnect();
+        onVisible(source);
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [source, onVisible]);
+
+  const exactTime = source.exactUpdatedAt ?? source.updatedAt;
+  const hasStats = !!source.uploader || source.sourceCount !== undefined || source.downloads !== undefined || source.likes !== undefined;
+
+  const importLink = getImportLink(source.jsonUrl, importKind);
+
+  const handleCopy = async () => {
+    setCopyState(await copyText(source.jsonUrl) ? 'copied' : 'failed');
+    setTimeout(() => setCopyState('idle'), 2000);
+  };
+
+  const handleCopyLink = async () => {
+    setCopyLinkState(await copyText(importLink) ? 'copied' : 'failed');
+    setTimeout(() => setCopyLinkState('idle'), 2000);
   };
 
   return (
-    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-3 sm:p-4 hover:shadow-md transition-shadow duration-200 flex flex-col justify-between h-full">
+    <div ref={cardRef} className={`bg-white rounded-lg shadow-sm border p-3 sm:p-4 hover:shadow-md transition-shadow duration-200 flex flex-col justify-between h-full ${
+      selected ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'
+    }`}>
       <div>
         <div className="flex flex-row items-start justify-between mb-2 gap-2">
-            <div className="flex flex-col min-w-0">
+            {onToggleSelect && (
+                <input
+                    type="checkbox"
+                    checked={selected}
+                    onChange={() => onToggleSelect(source.jsonUrl)}
+                    className="mt-0.5 shrink-0 accent-blue-600"
+                    title="Select source"
+                />
+            )}
+            <div className="flex flex-col min-w-0 flex-1">
                 <h3 className="text-sm sm:text-base font-semibold text-gray-800 line-clamp-2 leading-tight break-words" title={source.title}>
-                    {source.title}
+                    {change === ChangeKind.NEW && (
+                        <span className="mr-1 align-middle px-1 py-0.5 text-[9px] sm:text-[10px] font-bold text-green-700 bg-green-100 rounded">NEW</span>
+                    )}
+                    {change === ChangeKind.UPDATED && (
+                        <span className="mr-1 align-middle px-1 py-0.5 text-[9px] sm:text-[10px] font-bold text-blue-700 bg-blue-100 rounded">UPDATED</span>
+                    )}
+                    <HighlightedText text={source.title} ranges={highlights} />
                 </h3>
-                {source.updateDate && (
+                {(source.updateDate || source.exactUpdatedAt) && (
                     <div className="flex items-center gap-1 mt-1 text-gray-400">
                         <Calendar size={10} className="shrink-0" />
-                        <span className="text-[10px] sm:text-xs leading-none">
-                            {source.updateDate}
+                        <span
+                            className="text-[10px] sm:text-xs leading-none"
+                            title={exactTime ? new Date(exactTime).toLocaleString() : undefined}
+                        >
+                            {source.updateDate || new Date(source.exactUpdatedAt!).toLocaleString()}
                         </span>
                     </div>
                 )}
             </div>
-            <span className="text-[10px] sm:text-xs font-mono bg-gray-100 text-gray-500 px-1.5 py-0.5 sm:px-2 sm:py-1 rounded shrink-0 whitespace-nowrap">
-                ID: {source.id}
-            </span>
+            <div className="flex items-center gap-1 shrink-0">
+                <span className="text-[10px] sm:text-xs font-mono bg-gray-100 text-gray-500 px-1.5 py-0.5 sm:px-2 sm:py-1 rounded whitespace-nowrap">
+                    ID: {source.id}
+                </span>
+                {onToggleFavorite && (
+                    <button
+                        onClick={() => onToggleFavorite(source)}
+                        className={favorite ? 'text-yellow-500 hover:text-yellow-600' : 'text-gray-300 hover:text-yellow-500'}
+                        title={favorite ? 'Remove from favorites' : 'Add to favorites'}
+                    >
+                        <Star size={14} fill={favorite ? 'currentColor' : 'none'} />
+                    </button>
+                )}
+            </div>
         </div>
         
-        <div className="mb-3">
+        {classification && classification.tags.length > 0 && (
+          <div
+            className="mb-2 flex flex-wrap items-center gap-1"
+            title={`AI confidence ${Math.round(classification.confidence * 100)}%`}
+          >
+            {classification.tags.map(tag => (
+              <span key={tag} className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-purple-50 text-purple-700 border border-purple-100">
+                {tag}
+              </span>
+            ))}
+            <span className="text-[10px] text-gray-400">{Math.round(classification.confidence * 100)}%</span>
+          </div>
+        )}
+
+        {hasStats && (
+          <div className="mb-1 flex flex-wrap items-center gap-x-2 gap-y-0.5 text-[10px] sm:text-xs text-gray-500">
+            {source.uploader && (
+              <span className="flex items-center gap-0.5 min-w-0 truncate" title="Uploader"><User size={10} className="shrink-0" />{source.uploader}</span>
+            )}
+            {source.sourceCount !== undefined && (
+              <span className="flex items-center gap-0.5" title="Sources inside"><Layers size={10} />{source.sourceCount}</span>
+            )}
+            {source.downloads !== undefined && (
+              <span className="flex items-center gap-0.5" title="Downloads"><Download size={10} />{formatCount(source.downloads)}</span>
+            )}
+            {source.likes !== undefined && (
+              <span className="flex items-center gap-0.5" title="Likes"><Heart size={10} />{formatCount(source.likes)}</span>
+            )}
+          </div>
+        )}
+        {source.description && (
+          <p className="mb-2 text-[10px] sm:text-xs text-gray-500 line-clamp-2" title={source.description}>
+            {source.description}
+          </p>
+        )}
+
+        <div className="mb-3 flex items-center justify-between gap-2">
           <a 
             href={source.originalUrl} 
             target="_blank" 
@@ -46,7 +164,30 @@ export const SourceCard: React.FC<SourceCardProps> = ({ source }) => {
           >
             Original Page <ExternalLink size={10} className="sm:w-3 sm:h-3" />
           </a>
+          {(health || installState || quality) && (
+            <span className="flex items-center gap-1">
+              {quality && <QualityBadge quality={quality} />}
+              {health && <HealthBadge health={health} />}
+              {installState && <InstallBadge state={installState} />}
+            </span>
+          )}
+          {canPreview && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="text-xs text-gray-500 hover:text-gray-800 flex items-center gap-0.5"
+            title="Preview the book sources inside this JSON"
+          >
+            {expanded ? 'Hide' : 'Preview'}
+            {expanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+          </button>
+          )}
         </div>
+
+        {canPreview && expanded && (
+          <div className="mb-3">
+            <SourcePreview jsonUrl={source.jsonUrl} />
+          </div>
+        )}
       </div>
 
       <div className="bg-gray-50 p-2 sm:p-3 rounded-md border border-gray-100">
@@ -61,15 +202,51 @@ export const SourceCard: React.FC<SourceCardProps> = ({ source }) => {
           <button
             onClick={handleCopy}
             className={`p-1 sm:p-1.5 rounded-md transition-colors duration-200 flex-shrink-0 ${
-              copied 
-                ? 'bg-green-100 text-green-600' 
+              copyState === 'copied'
+                ? 'bg-green-100 text-green-600'
+                : copyState === 'failed'
+                ? 'bg-red-50 text-red-600'
+                : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-100'
+            }`}
+            title={copyState === 'failed' ? 'Copy failed' : 'Copy JSON URL'}
+          >
+            {copyState === 'copied' ? <Check size={14} className="sm:w-4 sm:h-4" />
+              : copyState === 'failed' ? <AlertCircle size={14} className="sm:w-4 sm:h-4" />
+              : <Copy size={14} className="sm:w-4 sm:h-4" />}
+          </button>
+          <button
+            onClick={() => setShowQr(!showQr)}
+            className={`p-1 sm:p-1.5 rounded-md transition-colors duration-200 flex-shrink-0 ${
+              showQr
+                ? 'bg-blue-100 text-blue-600'
                 : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-100'
             }`}
-            title="Copy JSON URL"
+            title="Legado import link and QR code"
           >
-            {copied ? <Check size={14} className="sm:w-4 sm:h-4" /> : <Copy size={14} className="sm:w-4 sm:h-4" />}
+            <QrIcon size={14} className="sm:w-4 sm:h-4" />
           </button>
         </div>
+
+        {showQr && (
+          <div className="mt-2 flex flex-col items-center gap-2">
+            <QrCode text={importLink} size={140} />
+            <div className="flex items-center gap-2">
+              <a
+                href={importLink}
+                className="flex items-center gap-1 px-2 py-1 text-[10px] sm:text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+              >
+                <Smartphone size={12} /> Open in Legado
+              </a>
+              <button
+                onClick={handleCopyLink}
+                className="flex items-center gap-1 px-2 py-1 text-[10px] sm:text-xs font-medium text-gray-700 bg-white border border-gray-200 rounded-md hover:bg-gray-100"
+              >
+                {copyLinkState === 'copied' ? <Check size={12} /> : copyLinkState === 'failed' ? <AlertCircle size={12} /> : <Copy size={12} />}
+                {' '}{copyLinkState === 'copied' ? 'Copied' : copyLinkState === 'failed' ? 'Copy failed' : 'Copy link'}
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
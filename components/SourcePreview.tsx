@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, AlertCircle, CheckCircle2, XCircle } from 'lucide-react';
+import { fetchSourceJson, getRuleSections } from '../services/legadoService';
+import { SourceJsonResult } from '../types';
+
+interface SourcePreviewProps {
+  jsonUrl: string;
+}
+
+const SectionTag: React.FC<{ label: string; present: boolean }> = ({ label, present }) => (
+  <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium border ${
+    present ? 'bg-green-50 text-green-700 border-green-200' : 'bg-gray-50 text-gray-400 border-gray-200 line-through'
+  }`}>
+    {label}
+  </span>
+);
+
+export const SourcePreview: React.FC<SourcePreviewProps> = ({ jsonUrl }) => {
+  const [result, setResult] = useState<SourceJsonResult | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    setResult(null);
+    fetchSourceJson(jsonUrl).then(res => {
+      if (active) setResult(res);
+    });
+    return () => { active = false; };
+  }, [jsonUrl]);
+
+  if (!result) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-500 py-2">
+        <Loader2 size={14} className="animate-spin" />
+        Downloading source JSON...
+      </div>
+    );
+  }
+
+  if (!result.success) {
+    return (
+      <div className="flex items-start gap-1 text-xs text-red-700 bg-red-50 rounded-md p-2">
+        <AlertCircle size={12} className="mt-0.5 shrink-0" />
+        <span className="break-words min-w-0">{result.error}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-semibold text-gray-700">
+        Contains {result.entries.length} book source{result.entries.length === 1 ? '' : 's'}
+      </div>
+      <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-md">
+        {result.entries.map((entry, idx) => {
+          const sections = getRuleSections(entry);
+          const enabled = entry.enabled !== false;
+          return (
+            <li key={`${entry.bookSourceUrl}-${idx}`} className="p-2 text-xs space-y-1">
+              <div className="flex items-center gap-1">
+                {enabled
+                  ? <CheckCircle2 size={12} className="text-green-500 shrink-0" />
+                  : <XCircle size={12} className="text-gray-400 shrink-0" />}
+                <span className="font-medium text-gray-800 truncate" title={entry.bookSourceName}>
+                  {entry.bookSourceName}
+                </span>
+              </div>
+              <div className="text-gray-500 font-mono truncate" title={entry.bookSourceUrl}>
+                {entry.bookSourceUrl}
+              </div>
+              <div className="flex flex-wrap items-center gap-1">
+                {entry.bookSourceGroup && (
+                  <span className="px-1.5 py-0.5 rounded text-[10px] bg-blue-50 text-blue-700 border border-blue-100">
+                    {entry.bookSourceGroup}
+                  </span>
+                )}
+                <SectionTag label="search" present={sections.search} />
+                <SectionTag label="explore" present={sections.explore} />
+                <SectionTag label="content" present={sections.content} />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Tags, X } from 'lucide-react';
+
+interface TagFilterProps {
+  tagCounts: [string, number][];
+  activeTags: Set<string>;
+  onToggle: (tag: string) => void;
+  onClear: () => void;
+}
+
+export const TagFilter: React.FC<TagFilterProps> = ({ tagCounts, activeTags, onToggle, onClear }) => (
+  <div className="mb-4 flex flex-wrap items-center gap-2">
+    <Tags size={14} className="text-purple-600" />
+    {tagCounts.map(([tag, count]) => {
+      const active = activeTags.has(tag);
+      return (
+        <button
+          key={tag}
+          onClick={() => onToggle(tag)}
+          className={`px-2 py-0.5 text-xs font-medium rounded-full border transition-colors ${
+            active
+              ? 'bg-purple-600 text-white border-purple-600'
+              : 'bg-white text-purple-700 border-purple-200 hover:bg-purple-50'
+          }`}
+        >
+          {tag} <span className={active ? 'text-purple-200' : 'text-purple-400'}>{count}</span>
+        </button>
+      );
+    })}
+    {activeTags.size > 0 && (
+      <button onClick={onClear} className="flex items-center gap-0.5 text-xs text-gray-500 hover:text-gray-800">
+        <X size={12} /> Clear
+      </button>
+    )}
+  </div>
+);
@@ -0,0 +1,116 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+}
+
+const GRID_CLASS = "grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 md:gap-4";
+
+// Shorter lists render in full, which keeps the browser's find-in-page working
+const VIRTUALIZE_FROM = 120;
+const ESTIMATED_ROW_HEIGHT = 240;
+// Rows mounted beyond each edge of the viewport, so fast scrolling doesn't show blanks
+const OVERSCAN_PX = 800;
+
+// Same breakpoints as GRID_CLASS
+const getColumnCount = (): number => window.innerWidth >= 1024 ? 4 : window.innerWidth >= 768 ? 3 : 2;
+
+// Card grid that only mounts the rows near the viewport. Rows are measured once rendered
+// (cards differ in height, and expand for previews), unmeasured rows use the running average.
+export const VirtualGrid = <T,>({ items, getKey, renderItem }: VirtualGridProps<T>) => {
+  const virtual = items.length >= VIRTUALIZE_FROM;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState(getColumnCount);
+  const [viewport, setViewport] = useState({ top: 0, bottom: window.innerHeight }); // Relative to the grid's top
+  const [, setMeasured] = useState(0);
+
+  // Row heights (including the gap below) for the current column count
+  const heightsRef = useRef({ columns, rows: new Map<number, number>() });
+  if (heightsRef.current.columns !== columns) heightsRef.current = { columns, rows: new Map() };
+
+  const observerRef = useRef<ResizeObserver | null>(null);
+  if (!observerRef.current && typeof ResizeObserver !== 'undefined') {
+    observerRef.current = new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(entry => {
+        const element = entry.target as HTMLElement;
+        const row = Number(element.dataset.row);
+        if (heightsRef.current.rows.get(row) !== element.offsetHeight) {
+          heightsRef.current.rows.set(row, element.offsetHeight);
+          changed = true;
+        }
+      });
+      if (changed) setMeasured(version => version + 1);
+    });
+  }
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const observeRow = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+    observerRef.current?.observe(element);
+    return () => observerRef.current?.unobserve(element);
+  }, []);
+
+  useEffect(() => {
+    if (!virtual) return;
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        setViewport({ top: -rect.top, bottom: window.innerHeight - rect.top });
+        setColumns(getColumnCount());
+      });
+    };
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [virtual, items]);
+
+  if (!virtual) {
+    return (
+      <div className={GRID_CLASS}>
+        {items.map(item => <React.Fragment key={getKey(item)}>{renderItem(item)}</React.Fragment>)}
+      </div>
+    );
+  }
+
+  const rowCount = Math.ceil(items.length / columns);
+  const measured = heightsRef.current.rows;
+  let measuredTotal = 0;
+  measured.forEach(height => { measuredTotal += height; });
+  const estimate = measured.size > 0 ? measuredTotal / measured.size : ESTIMATED_ROW_HEIGHT;
+
+  // offsets[i] is where row i starts; offsets[rowCount] is the full height
+  const offsets = [0];
+  for (let row = 0; row < rowCount; row++) offsets.push(offsets[row] + (measured.get(row) ?? estimate));
+
+  let first = 0;
+  while (first < rowCount - 1 && offsets[first + 1] < viewport.top - OVERSCAN_PX) first++;
+  let last = first;
+  while (last < rowCount && offsets[last] < viewport.bottom + OVERSCAN_PX) last++;
+
+  const rows = Array.from({ length: last - first }, (_, i) => first + i);
+
+  return (
+    <div ref={containerRef} style={{ paddingTop: offsets[first], paddingBottom: offsets[rowCount] - offsets[last] }}>
+      {rows.map(row => (
+        <div key={row} ref={observeRow} data-row={row} className="pb-3 md:pb-4">
+          <div className={GRID_CLASS}>
+            {items.slice(row * columns, (row + 1) * columns).map(item => (
+              <React.Fragment key={getKey(item)}>{renderItem(item)}</React.Fragment>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,3 +1,13 @@
 export const TARGET_URL = "https://www.yckceo.sbs/yuedu/shuyuans/index.html";
 export const BASE_URL = "https://www.yckceo.sbs/yuedu/shuyuans";
 export const JSON_BASE_URL = "https://www.yckceo.sbs/yuedu/shuyuans/json/id";
+
+// Subscription (RSS) sources
+export const RSS_TARGET_URL = "https://www.yckceo.sbs/yuedu/dingyues/index.html";
+export const RSS_BASE_URL = "https://www.yckceo.sbs/yuedu/dingyues";
+export const RSS_JSON_BASE_URL = "https://www.yckceo.sbs/yuedu/dingyues/json/id";
+
+// Replace (text purification) rules
+export const REPLACE_TARGET_URL = "https://www.yckceo.sbs/yuedu/tihuans/index.html";
+export const REPLACE_BASE_URL = "https://www.yckceo.sbs/yuedu/tihuans";
+export const REPLACE_JSON_BASE_URL = "https://www.yckceo.sbs/yuedu/tihuans/json/id";
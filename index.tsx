@@ -1,6 +1,11 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { setPageParser } from './services/scraperService';
+import { parsePageInWorker } from './services/workerClient';
+
+// Listing pages are parsed in a Web Worker; it falls back to the main thread on its own
+setPageParser(parsePageInWorker);
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,24 @@
+// Prompts shared by every LLM backend so results are comparable across providers
+
+// Only the first 50 titles are sent for a page summary
+export const MAX_ANALYZE_TITLES = 50;
+
+export const buildAnalyzePrompt = (titles: string[]): string => `
+      Analyze the following list of book source titles. 
+      Provide a brief summary of the types of content available (e.g., "Mostly fantasy novels", "Mixed genres").
+      Also provide a list of up to 5 relevant tags/categories.
+      Respond with JSON: {"summary": string, "tags": string[]}.
+      
+      Titles:
+      ${titles.slice(0, MAX_ANALYZE_TITLES).join(", ")} ${(titles.length > MAX_ANALYZE_TITLES ? "...and more" : "")}
+    `;
+
+export const buildClassifyPrompt = (items: { id: string; title: string }[]): string => `
+      Classify each of the following book source titles by genre or content type.
+      For every entry return its id, 1-3 short genre tags (e.g. "玄幻", "漫画", "听书", "综合"), and a confidence between 0 and 1.
+      Reuse the same tag wording across entries so they can be grouped.
+      Respond with JSON: {"items": [{"id": string, "tags": string[], "confidence": number}]}.
+
+      Entries (id: title):
+      ${items.map(item => `${item.id}: ${item.title}`).join("\n")}
+    `;
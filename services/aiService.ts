@@ -0,0 +1,138 @@
+import { AiProvider, AiProviderId, AiSettings, AnalysisResult, ClassifiedTitle } from '../types';
+import { createGeminiProvider, getEnvApiKey, DEFAULT_GEMINI_MODEL } from './geminiService';
+import { createOpenAiCompatibleProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from './openAiService';
+import { createKeywordProvider } from './keywordClassifier';
+
+const STORAGE_KEY = 'bse.aiSettings';
+
+export const AI_PROVIDER_LABELS: Record<AiProviderId, string> = {
+  [AiProviderId.GEMINI]: 'Google Gemini',
+  [AiProviderId.OPENAI_COMPATIBLE]: 'OpenAI-compatible',
+  [AiProviderId.KEYWORD]: 'Offline keywords',
+};
+
+export const DEFAULT_MODELS: Record<AiProviderId, string> = {
+  [AiProviderId.GEMINI]: DEFAULT_GEMINI_MODEL,
+  [AiProviderId.OPENAI_COMPATIBLE]: DEFAULT_OPENAI_MODEL,
+  [AiProviderId.KEYWORD]: '',
+};
+
+// A build-time Gemini key keeps the original behaviour; otherwise start offline
+const defaultSettings = (): AiSettings => {
+  const envKey = getEnvApiKey();
+  return {
+    provider: envKey ? AiProviderId.GEMINI : AiProviderId.KEYWORD,
+    model: envKey ? DEFAULT_GEMINI_MODEL : '',
+    apiKey: '',
+    baseUrl: DEFAULT_OPENAI_BASE_URL,
+  };
+};
+
+const readSettings = (): AiSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...defaultSettings(), ...JSON.parse(raw) } : defaultSettings();
+  } catch (e) {
+    return defaultSettings();
+  }
+};
+
+let settings: AiSettings = readSettings();
+const listeners = new Set<() => void>();
+
+export const subscribeAiSettings = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getAiSettings = (): AiSettings => settings;
+
+export const saveAiSettings = (next: AiSettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    // Storage disabled; settings last for this session
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const resetAiSettings = () => saveAiSettings(defaultSettings());
+
+// Which provider and model produced a result; another model's tags shouldn't pass for this one's
+export const getClassifierId = (current: AiSettings = settings): string =>
+  `${current.provider}:${current.model || DEFAULT_MODELS[current.provider]}`;
+
+const getProvider = (current: AiSettings = settings): AiProvider => {
+  switch (current.provider) {
+    case AiProviderId.GEMINI:
+      return createGeminiProvider(current.apiKey || getEnvApiKey(), current.model);
+    case AiProviderId.OPENAI_COMPATIBLE:
+      return createOpenAiCompatibleProvider(current.baseUrl, current.model, current.apiKey);
+    default:
+      return createKeywordProvider();
+  }
+};
+
+export const isAiConfigured = (current: AiSettings = settings): boolean => getProvider(current).isConfigured();
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Every provider's output goes through the same checks before the UI sees it
+export const validateAnalysisResult = (raw: unknown): AnalysisResult | null => {
+  const data = raw as Partial<AnalysisResult> | null;
+  if (!data || typeof data.summary !== 'string' || !isStringArray(data.tags)) return null;
+  return { summary: data.summary.trim(), tags: data.tags.map(tag => tag.trim()).filter(Boolean).slice(0, 5) };
+};
+
+// Accepts {items: [...]} or a bare array; malformed rows are dropped rather than failing the batch
+export const validateClassifiedTitles = (raw: unknown): ClassifiedTitle[] | null => {
+  const rows = Array.isArray(raw) ? raw : (raw as { items?: unknown } | null)?.items;
+  if (!Array.isArray(rows)) return null;
+  return rows
+    .filter(row => row && (typeof row.id === 'string' || typeof row.id === 'number') && isStringArray(row.tags))
+    .map(row => ({
+      id: String(row.id),
+      tags: row.tags,
+      confidence: typeof row.confidence === 'number' ? row.confidence : Number(row.confidence) || 0,
+    }));
+};
+
+export const analyzeTitles = async (titles: string[]): Promise<AnalysisResult | null> => {
+  if (titles.length === 0) return null;
+  const provider = getProvider();
+  if (!provider.isConfigured()) {
+    console.warn(`${AI_PROVIDER_LABELS[settings.provider]} is not configured.`);
+    return null;
+  }
+
+  try {
+    const result = validateAnalysisResult(await provider.analyze(titles));
+    if (!result) throw new Error("Response did not match the analysis schema");
+    return result;
+  } catch (error) {
+    console.error(`${AI_PROVIDER_LABELS[settings.provider]} analysis failed:`, error);
+    return null;
+  }
+};
+
+// Classify each title on its own. Callers are expected to keep batches small
+// enough for one response (see classificationService).
+export const classifyTitles = async (items: { id: string; title: string }[]): Promise<ClassifiedTitle[] | null> => {
+  if (items.length === 0) return [];
+  const provider = getProvider();
+  if (!provider.isConfigured()) {
+    console.warn(`${AI_PROVIDER_LABELS[settings.provider]} is not configured.`);
+    return null;
+  }
+
+  try {
+    const result = validateClassifiedTitles(await provider.classify(items));
+    if (!result) throw new Error("Response did not match the classification schema");
+    return result;
+  } catch (error) {
+    console.error(`${AI_PROVIDER_LABELS[settings.provider]} classification failed:`, error);
+    return null;
+  }
+};
@@ -0,0 +1,73 @@
+import { BackupComparison, EntryInstallState, InstallStatus, LegadoBackup, LegadoBookSource, SourceInstallState } from '../types';
+import { parseLegadoSources, FetchedSourceJson } from './legadoService';
+
+// Read the bookSource.json that Legado writes when backing up (or exporting) its sources
+export const parseBackup = async (file: File): Promise<LegadoBackup> => {
+  const result = parseLegadoSources(await file.text());
+  if (!result.success) {
+    throw new Error(result.error || 'Not a Legado book source backup.');
+  }
+  return { fileName: file.name, loadedAt: Date.now(), entries: result.entries };
+};
+
+const updateTime = (entry: LegadoBookSource): number =>
+  typeof entry.lastUpdateTime === 'number' ? entry.lastUpdateTime : 0;
+
+// Legado identifies a source by its bookSourceUrl, so that's all we match on
+const compareEntry = (entry: LegadoBookSource, installed?: LegadoBookSource): EntryInstallState => {
+  const state = {
+    bookSourceName: entry.bookSourceName,
+    bookSourceUrl: entry.bookSourceUrl,
+    lastUpdateTime: updateTime(entry) || undefined,
+    installedUpdateTime: installed ? updateTime(installed) || undefined : undefined,
+  };
+  if (!installed) return { ...state, status: InstallStatus.NOT_INSTALLED };
+  if (updateTime(entry) > updateTime(installed)) return { ...state, status: InstallStatus.UPDATE_AVAILABLE };
+  return { ...state, status: InstallStatus.INSTALLED };
+};
+
+const summarize = (entries: EntryInstallState[]): InstallStatus => {
+  if (entries.some(entry => entry.status === InstallStatus.UPDATE_AVAILABLE)) return InstallStatus.UPDATE_AVAILABLE;
+  if (entries.some(entry => entry.status === InstallStatus.NOT_INSTALLED)) return InstallStatus.NOT_INSTALLED;
+  return InstallStatus.INSTALLED;
+};
+
+// Keep the newest copy when several listings carry the same bookSourceUrl
+const keepNewest = (kept: Map<string, LegadoBookSource>, entry: LegadoBookSource) => {
+  const existing = kept.get(entry.bookSourceUrl);
+  if (!existing || updateTime(entry) > updateTime(existing)) {
+    kept.set(entry.bookSourceUrl, entry);
+  }
+};
+
+export const compareWithBackup = (fetched: FetchedSourceJson[], backup: LegadoBackup): BackupComparison => {
+  const installed = new Map(backup.entries.map(entry => [entry.bookSourceUrl, entry]));
+  const states = new Map<string, SourceInstallState>();
+  const updates = new Map<string, LegadoBookSource>();
+  const additions = new Map<string, LegadoBookSource>();
+  const comparedAt = Date.now();
+
+  fetched.forEach(({ source, result }) => {
+    if (!result.success) {
+      states.set(source.jsonUrl, { status: InstallStatus.ERROR, comparedAt, entries: [], error: result.error });
+      return;
+    }
+
+    const entries = result.entries.map(entry => {
+      const state = compareEntry(entry, installed.get(entry.bookSourceUrl));
+      if (state.status === InstallStatus.UPDATE_AVAILABLE) keepNewest(updates, entry);
+      if (state.status === InstallStatus.NOT_INSTALLED) keepNewest(additions, entry);
+      return state;
+    });
+    states.set(source.jsonUrl, { status: summarize(entries), comparedAt, entries });
+  });
+
+  return {
+    states,
+    updates: Array.from(updates.values()),
+    additions: Array.from(additions.values()),
+  };
+};
+
+export const needsInstall = (state?: SourceInstallState): boolean =>
+  state?.status === InstallStatus.UPDATE_AVAILABLE || state?.status === InstallStatus.NOT_INSTALLED;
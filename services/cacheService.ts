@@ -0,0 +1,75 @@
+import { CacheEntry, CacheStats } from '../types';
+import { runRequest, CACHE_STORE } from './idb';
+
+const TTL_STORAGE_KEY = 'bse.cacheTtlMinutes';
+const DEFAULT_TTL_MINUTES = 60;
+
+// Off where there's no IndexedDB (Node), so lookups don't fail and warn on every request
+let cacheEnabled = typeof indexedDB !== 'undefined';
+
+export const setCacheEnabled = (enabled: boolean) => {
+  cacheEnabled = enabled;
+};
+
+export const getCacheTtlMinutes = (): number => {
+  try {
+    const stored = parseInt(localStorage.getItem(TTL_STORAGE_KEY) || '', 10);
+    return Number.isNaN(stored) ? DEFAULT_TTL_MINUTES : stored;
+  } catch (e) {
+    // No localStorage outside the browser
+    return DEFAULT_TTL_MINUTES;
+  }
+};
+
+export const setCacheTtlMinutes = (minutes: number) => {
+  localStorage.setItem(TTL_STORAGE_KEY, String(Math.max(0, Math.round(minutes))));
+};
+
+export const isCacheFresh = (entry: CacheEntry<unknown>): boolean =>
+  Date.now() - entry.storedAt < getCacheTtlMinutes() * 60 * 1000;
+
+// Cache failures never break a request; they only cost us the cache
+export const getCached = async <T,>(key: string): Promise<CacheEntry<T> | undefined> => {
+  if (!cacheEnabled) return undefined;
+  try {
+    return await runRequest<CacheEntry<T> | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+  } catch (error) {
+    console.warn("Cache read failed:", error);
+    return undefined;
+  }
+};
+
+export const setCached = async <T,>(key: string, kind: CacheEntry<T>['kind'], value: T): Promise<void> => {
+  if (!cacheEnabled) return;
+  try {
+    const entry: CacheEntry<T> = { key, kind, value, storedAt: Date.now() };
+    await runRequest(CACHE_STORE, 'readwrite', store => store.put(entry));
+  } catch (error) {
+    console.warn("Cache write failed:", error);
+  }
+};
+
+export const clearCache = async (): Promise<void> => {
+  try {
+    await runRequest(CACHE_STORE, 'readwrite', store => store.clear());
+  } catch (error) {
+    console.warn("Cache clear failed:", error);
+  }
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const stats: CacheStats = { entries: 0, pages: 0, jsonFiles: 0, details: 0, bytes: 0 };
+  try {
+    const entries = await runRequest<CacheEntry<unknown>[]>(CACHE_STORE, 'readonly', store => store.getAll());
+    entries.forEach(entry => {
+      stats.entries++;
+      if (entry.kind === 'page') stats.pages++;
+      if (entry.kind === 'json') stats.jsonFiles++;
+      if (entry.kind === 'detail') stats.details++;
+      stats.bytes += JSON.stringify(entry.value).length;
+    });
+  } catch (error) {
+    console.warn("Cache stats failed:", error);
+  }
+  return stats;
+};
@@ -0,0 +1,120 @@
+import { BookSource, SourceClassification } from '../types';
+import { classifyTitles, getClassifierId } from './aiService';
+
+const STORAGE_KEY = 'bse.classifications';
+const BATCH_SIZE = 40;
+
+// Keyed by jsonUrl, which embeds the listing id and stays unique across site adapters
+type ClassificationCache = Record<string, SourceClassification>;
+
+// Parsed once; listings are re-checked on every details update, too often to re-read storage
+let memoryCache: ClassificationCache | null = null;
+
+const readCache = (): ClassificationCache => {
+  if (memoryCache) return memoryCache;
+  try {
+    memoryCache = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as ClassificationCache;
+  } catch (e) {
+    memoryCache = {};
+  }
+  return memoryCache;
+};
+
+const writeCache = (cache: ClassificationCache) => {
+  memoryCache = cache;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cache));
+  } catch (e) {
+    // Storage full or disabled; results still live for this session
+  }
+};
+
+const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean))).slice(0, 3);
+
+const clampConfidence = (value: number): number =>
+  Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+
+// Cached results for the given sources, skipping any whose title has since changed
+// or that came from a different provider or model than the current one
+export const getCachedClassifications = (sources: BookSource[]): Map<string, SourceClassification> => {
+  const cache = readCache();
+  const classifier = getClassifierId();
+  const result = new Map<string, SourceClassification>();
+  sources.forEach(source => {
+    const cached = cache[source.jsonUrl];
+    if (cached && cached.title === source.title && cached.classifier === classifier) {
+      result.set(source.jsonUrl, cached);
+    }
+  });
+  return result;
+};
+
+export interface ClassifyProgress {
+  done: number;
+  total: number;
+  failedBatches: number;
+}
+
+// Classify every source not already cached, BATCH_SIZE titles per request.
+// Returns classifications for all given sources that have one (cached or new).
+export const classifySources = async (
+  sources: BookSource[],
+  onProgress?: (progress: ClassifyProgress) => void,
+  signal?: AbortSignal
+): Promise<Map<string, SourceClassification>> => {
+  const result = getCachedClassifications(sources);
+  const pending = sources.filter(source => !result.has(source.jsonUrl));
+  const progress: ClassifyProgress = { done: 0, total: pending.length, failedBatches: 0 };
+  onProgress?.({ ...progress });
+
+  for (let i = 0; i < pending.length && !signal?.aborted; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    const classifier = getClassifierId();
+    // Listing ids can repeat within a mixed collection, so rows refer to the position in the batch
+    const rows = await classifyTitles(batch.map(({ title }, index) => ({ id: String(index), title })));
+
+    if (rows) {
+      const cache = readCache();
+      rows.forEach(row => {
+        const source = batch[Number(row.id)];
+        if (!source) return;
+        const classification: SourceClassification = {
+          tags: normalizeTags(row.tags ?? []),
+          confidence: clampConfidence(row.confidence),
+          title: source.title,
+          classifier,
+          classifiedAt: Date.now(),
+        };
+        cache[source.jsonUrl] = classification;
+        result.set(source.jsonUrl, classification);
+      });
+      writeCache(cache);
+    } else {
+      progress.failedBatches++;
+    }
+
+    progress.done += batch.length;
+    onProgress?.({ ...progress });
+  }
+
+  return result;
+};
+
+export const clearClassificationCache = () => {
+  memoryCache = null;
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    // Nothing to clear
+  }
+};
+
+// Tag -> number of sources carrying it, most common first
+export const countTags = (classifications: Map<string, SourceClassification>, sources: BookSource[]): [string, number][] => {
+  const counts = new Map<string, number>();
+  sources.forEach(source => {
+    classifications.get(source.jsonUrl)?.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+};
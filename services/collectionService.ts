@@ -0,0 +1,146 @@
+import { BookSource, CollectionFile, SourceCollection } from '../types';
+import { downloadTextFile, fileDateStamp } from './exportService';
+
+const STORAGE_KEY = 'bse.collections';
+
+// Built-in collection behind the star button; it can't be renamed or deleted
+export const FAVORITES_ID = 'favorites';
+
+const createFavorites = (): SourceCollection => ({
+  id: FAVORITES_ID,
+  name: 'Favorites',
+  sources: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+const readCollections = (): SourceCollection[] => {
+  let stored: SourceCollection[] = [];
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (e) {
+    // Corrupt or unavailable storage; start empty
+  }
+  return stored.some(c => c.id === FAVORITES_ID) ? stored : [createFavorites(), ...stored];
+};
+
+let collections: SourceCollection[] = readCollections();
+const listeners = new Set<() => void>();
+
+export const subscribeCollections = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const save = (next: SourceCollection[]) => {
+  collections = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(collections));
+  } catch (e) {
+    console.warn("Saving collections failed:", e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+const update = (id: string, change: (collection: SourceCollection) => Partial<SourceCollection>) => {
+  save(collections.map(c => (c.id === id ? { ...c, ...change(c), updatedAt: Date.now() } : c)));
+};
+
+export const getCollections = (): SourceCollection[] => collections;
+
+export const getCollection = (id: string): SourceCollection | undefined => collections.find(c => c.id === id);
+
+export const createCollection = (name: string): SourceCollection => {
+  const collection: SourceCollection = {
+    id: `collection-${Date.now()}`,
+    name: name.trim() || 'Untitled',
+    sources: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+  save([...collections, collection]);
+  return collection;
+};
+
+export const renameCollection = (id: string, name: string) => {
+  if (id === FAVORITES_ID || !name.trim()) return;
+  update(id, () => ({ name: name.trim() }));
+};
+
+export const deleteCollection = (id: string) => {
+  if (id === FAVORITES_ID) return;
+  save(collections.filter(c => c.id !== id));
+};
+
+// Sources are identified by jsonUrl, since listing ids repeat across site adapters.
+// Re-adding a source refreshes the stored copy (e.g. a newer title or date).
+export const addToCollection = (id: string, sources: BookSource[]) => {
+  update(id, collection => {
+    const byUrl = new Map(collection.sources.map(source => [source.jsonUrl, source]));
+    sources.forEach(source => byUrl.set(source.jsonUrl, source));
+    return { sources: Array.from(byUrl.values()) };
+  });
+};
+
+export const removeFromCollection = (id: string, jsonUrls: string[]) => {
+  const removed = new Set(jsonUrls);
+  update(id, collection => ({ sources: collection.sources.filter(source => !removed.has(source.jsonUrl)) }));
+};
+
+export const isInCollection = (id: string, source: BookSource): boolean =>
+  !!getCollection(id)?.sources.some(s => s.jsonUrl === source.jsonUrl);
+
+export const toggleFavorite = (source: BookSource) => {
+  if (isInCollection(FAVORITES_ID, source)) {
+    removeFromCollection(FAVORITES_ID, [source.jsonUrl]);
+  } else {
+    addToCollection(FAVORITES_ID, [source]);
+  }
+};
+
+export const downloadCollections = (ids: string[]) => {
+  const file: CollectionFile = {
+    type: 'bse-collections',
+    version: 1,
+    exportedAt: Date.now(),
+    collections: collections.filter(c => ids.includes(c.id)),
+  };
+  const name = file.collections.length === 1 ? file.collections[0].name : 'collections';
+  downloadTextFile(`${name}-${fileDateStamp()}.json`, JSON.stringify(file, null, 2), 'application/json');
+};
+
+// Merge a shared file into local collections: same id or name adds the missing sources,
+// anything else becomes a new collection. Returns how many sources were added.
+export const importCollections = (text: string): number => {
+  const file = JSON.parse(text) as Partial<CollectionFile>;
+  if (file?.type !== 'bse-collections' || !Array.isArray(file.collections)) {
+    throw new Error("Not a collections file");
+  }
+
+  let next = [...collections];
+  let added = 0;
+  file.collections.forEach(incoming => {
+    if (!incoming || typeof incoming.name !== 'string' || !Array.isArray(incoming.sources)) return;
+    const valid = incoming.sources.filter(s => s && typeof s.jsonUrl === 'string' && typeof s.id === 'string');
+    const existing = next.find(c => c.id === incoming.id || c.name === incoming.name);
+
+    if (existing) {
+      const known = new Set(existing.sources.map(s => s.jsonUrl));
+      const fresh = valid.filter(s => !known.has(s.jsonUrl));
+      added += fresh.length;
+      next = next.map(c => (c === existing ? { ...c, sources: [...c.sources, ...fresh], updatedAt: Date.now() } : c));
+    } else {
+      added += valid.length;
+      next.push({
+        id: `collection-${Date.now()}-${next.length}`,
+        name: incoming.name,
+        sources: valid,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    }
+  });
+
+  save(next);
+  return added;
+};
@@ -0,0 +1,54 @@
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const RELATIVE_UNITS: Record<string, number> = {
+  '天': DAY,
+  '小时': HOUR,
+  '分钟': MINUTE,
+  '秒': 1000,
+};
+
+// Turn a scraped date label into an epoch timestamp (ms), resolved against the
+// time the page was fetched. Returns undefined for text we don't recognise.
+export const parseUpdateDate = (raw: string, referenceTime: number = Date.now()): number | undefined => {
+  const text = raw.trim();
+
+  // YYYY-MM-DD, taken as local midnight
+  const isoMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (isoMatch) {
+    const [, year, month, day] = isoMatch.map(Number);
+    return new Date(year, month - 1, day).getTime();
+  }
+
+  // MM/DD HH:mm has no year; assume the most recent such date that isn't in the future
+  const shortMatch = text.match(/^(\d{1,2})\/(\d{1,2})\s+(\d{1,2}):(\d{1,2})$/);
+  if (shortMatch) {
+    const [, month, day, hour, minute] = shortMatch.map(Number);
+    const reference = new Date(referenceTime);
+    let date = new Date(reference.getFullYear(), month - 1, day, hour, minute);
+    // Allow a day of slack for timezone differences with the site
+    if (date.getTime() > referenceTime + DAY) {
+      date = new Date(reference.getFullYear() - 1, month - 1, day, hour, minute);
+    }
+    return date.getTime();
+  }
+
+  // 5天前, 18小时前, 30分钟前, 10秒前
+  const relativeMatch = text.match(/^(\d+)\s*(天|小时|分钟|秒)前$/);
+  if (relativeMatch) {
+    return referenceTime - Number(relativeMatch[1]) * RELATIVE_UNITS[relativeMatch[2]];
+  }
+
+  return undefined;
+};
+
+// How far a parsed label can be from the real time: "5天前" only says 5 to 6 days,
+// a bare date only gives the day. Unrecognised text gets no tolerance.
+export const getDatePrecision = (raw: string): number => {
+  const text = raw.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return DAY;
+  if (/^\d{1,2}\/\d{1,2}\s+\d{1,2}:\d{1,2}$/.test(text)) return MINUTE;
+  const relativeMatch = text.match(/^\d+\s*(天|小时|分钟|秒)前$/);
+  return relativeMatch ? RELATIVE_UNITS[relativeMatch[1]] : 0;
+};
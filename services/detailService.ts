@@ -0,0 +1,123 @@
+import { BookSource, SiteAdapter, SourceDetails } from '../types';
+import { fetchViaProxies } from './proxyService';
+import { getCached, setCached, isCacheFresh } from './cacheService';
+import { parseHtml } from './scraperService';
+import { mapWithConcurrency } from './taskQueue';
+
+// Visible cards load their details in the background; keep that gentle on the proxies
+const LAZY_CONCURRENCY = 2;
+
+// Copy details onto matching sources. Untouched sources keep their identity so
+// memoised work on them (e.g. the search index) survives.
+export const applyDetails = (sources: BookSource[], details: Map<string, SourceDetails>): BookSource[] => {
+  if (details.size === 0) return sources;
+  let changed = false;
+  const next = sources.map(source => {
+    const found = details.get(source.originalUrl);
+    if (!found || found.detailsFetchedAt === source.detailsFetchedAt) return source;
+    changed = true;
+    return { ...source, ...found };
+  });
+  return changed ? next : sources;
+};
+
+// Details already in the cache for these sources, keyed by originalUrl. Age doesn't matter here.
+export const loadCachedDetails = async (sources: BookSource[]): Promise<Map<string, SourceDetails>> => {
+  const result = new Map<string, SourceDetails>();
+  await Promise.all(sources.map(async source => {
+    const entry = await getCached<SourceDetails>(source.originalUrl);
+    if (entry?.kind === 'detail') result.set(source.originalUrl, entry.value);
+  }));
+  return result;
+};
+
+// Cache-first fetch of one detail page. Returns null when it can't be fetched or parsed.
+export const fetchSourceDetails = async (
+  source: BookSource,
+  adapter: SiteAdapter,
+  signal?: AbortSignal
+): Promise<SourceDetails | null> => {
+  const cached = await getCached<SourceDetails>(source.originalUrl);
+  if (cached?.kind === 'detail' && isCacheFresh(cached)) return cached.value;
+
+  try {
+    // Details are optional extras, so one pass over the proxies is enough
+    const html = await fetchViaProxies(source.originalUrl, adapter.isDetailPage, signal, { retries: 0 });
+    const details = adapter.extractDetails(parseHtml(html), Date.now());
+    await setCached(source.originalUrl, 'detail', details);
+    return details;
+  } catch (error) {
+    if (!signal?.aborted) console.warn(`Failed to fetch details for ${source.originalUrl}:`, error);
+    return cached?.kind === 'detail' ? cached.value : null;
+  }
+};
+
+// Fetch details for every source (used before exports). Keyed by originalUrl.
+export const fetchDetailsBatch = async (
+  sources: BookSource[],
+  adapter: SiteAdapter,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal,
+  concurrency: number = 3
+): Promise<Map<string, SourceDetails>> => {
+  const result = new Map<string, SourceDetails>();
+  let done = 0;
+  onProgress?.(0, sources.length);
+  await mapWithConcurrency(sources, concurrency, async source => {
+    const details = await fetchSourceDetails(source, adapter, signal);
+    if (details) result.set(source.originalUrl, details);
+    onProgress?.(++done, sources.length);
+  }, signal);
+  return result;
+};
+
+// Lazy loading for cards as they scroll into view: de-duplicated and throttled
+const inFlight = new Map<string, Promise<SourceDetails | null>>();
+const waiting: (() => void)[] = [];
+let running = 0;
+
+const acquire = (): Promise<void> => {
+  if (running < LAZY_CONCURRENCY) {
+    running++;
+    return Promise.resolve();
+  }
+  return new Promise(resolve => waiting.push(() => { running++; resolve(); }));
+};
+
+const release = () => {
+  running--;
+  waiting.shift()?.();
+};
+
+export const queueDetails = (source: BookSource, adapter: SiteAdapter): Promise<SourceDetails | null> => {
+  const pending = inFlight.get(source.originalUrl);
+  if (pending) return pending;
+
+  const request = acquire()
+    .then(() => fetchSourceDetails(source, adapter))
+    .finally(() => {
+      release();
+      inFlight.delete(source.originalUrl);
+    });
+  inFlight.set(source.originalUrl, request);
+  return request;
+};
+
+const AUTO_LOAD_STORAGE_KEY = 'bse.autoLoadDetails';
+
+// Whether visible cards fetch their detail pages on their own (on unless turned off)
+export const getAutoLoadDetails = (): boolean => {
+  try {
+    return localStorage.getItem(AUTO_LOAD_STORAGE_KEY) !== 'false';
+  } catch (e) {
+    return true;
+  }
+};
+
+export const setAutoLoadDetails = (enabled: boolean) => {
+  try {
+    localStorage.setItem(AUTO_LOAD_STORAGE_KEY, String(enabled));
+  } catch (e) {
+    // Storage disabled; the choice lasts for this session
+  }
+};
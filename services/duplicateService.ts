@@ -0,0 +1,237 @@
+import { BookSource, DuplicateCluster, DuplicateMember, DuplicateReason, DuplicateReport, LegadoBookSource } from '../types';
+import { fetchSourceJsonBatch } from './legadoService';
+
+// Dice similarity of title bigrams
+const TITLE_SIMILARITY_THRESHOLD = 0.85;
+// Bigrams this common (书源, 合集...) say nothing about similarity and would make matching quadratic
+const MAX_BIGRAM_POSTINGS = 300;
+
+// Key order doesn't change what Legado imports, so it mustn't change the hash either
+const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${canonicalize(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// SHA-256 of the entries, ignoring key and entry order
+export const hashEntries = async (entries: LegadoBookSource[]): Promise<string> => {
+  const text = entries.map(canonicalize).sort().join('\n');
+  // Browsers only expose crypto.subtle to https and localhost pages
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('Comparing JSON contents needs the app served over https or from localhost.');
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Drop what repackagers usually change: dates, version numbers, punctuation and spacing
+export const normalizeTitle = (title: string): string =>
+  title.toLowerCase()
+    .replace(/\d{2,4}[.\-/年]\d{1,2}(?:[.\-/月]\d{1,2}日?)?/g, '')
+    .replace(/v?\d+(?:\.\d+)+/g, '')
+    .replace(/[\s\p{P}\p{S}]+/gu, '');
+
+const bigrams = (text: string): Set<string> => {
+  const chars = Array.from(text);
+  if (chars.length < 2) return new Set(chars.length ? [text] : []);
+  const grams = new Set<string>();
+  for (let i = 0; i < chars.length - 1; i++) grams.add(chars[i] + chars[i + 1]);
+  return grams;
+};
+
+const createUnionFind = (size: number) => {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  return { find, union: (a: number, b: number) => { parent[find(a)] = find(b); } };
+};
+
+// Pairs of items sharing enough keys, found through an inverted index instead of comparing every pair
+const findOverlaps = (
+  keySets: Set<string>[],
+  isMatch: (shared: number, a: number, b: number) => boolean,
+  maxPostings: number = Infinity
+): [number, number][] => {
+  const postings = new Map<string, number[]>();
+  const pairs: [number, number][] = [];
+  keySets.forEach((keys, i) => {
+    const shared = new Map<number, number>();
+    keys.forEach(key => {
+      const list = postings.get(key) ?? [];
+      if (list.length < maxPostings) list.forEach(j => shared.set(j, (shared.get(j) ?? 0) + 1));
+      list.push(i);
+      postings.set(key, list);
+    });
+    shared.forEach((count, j) => {
+      if (isMatch(count, i, j)) pairs.push([j, i]);
+    });
+  });
+  return pairs;
+};
+
+const toMember = (source: BookSource, json: Map<string, LegadoBookSource[]>, coveredBy: string[]): DuplicateMember => {
+  const entries = json.get(source.jsonUrl);
+  const newestEntry = Math.max(0, ...(entries ?? []).map(entry => entry.lastUpdateTime ?? 0));
+  const listed = source.exactUpdatedAt ?? source.updatedAt ?? 0;
+  return {
+    jsonUrl: source.jsonUrl,
+    entryCount: entries?.length ?? source.sourceCount,
+    freshness: Math.max(newestEntry, listed) || undefined,
+    coveredBy,
+  };
+};
+
+// Group sources that are the same thing. `json` holds the entries of every source whose JSON was loaded, by jsonUrl.
+// Identical JSON and URL sets that contain one another make a member redundant; similar titles
+// alone only put sources side by side for review, and aren't chained through a third title.
+export const clusterDuplicates = async (
+  sources: BookSource[],
+  json: Map<string, LegadoBookSource[]>
+): Promise<DuplicateCluster[]> => {
+  // covers[i] holds every j whose content includes all of i's
+  const covers = sources.map(() => new Set<number>());
+  const reasonsByPair = new Map<string, Set<DuplicateReason>>();
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    const key = a < b ? `${a},${b}` : `${b},${a}`;
+    reasonsByPair.set(key, (reasonsByPair.get(key) ?? new Set()).add(reason));
+  };
+
+  const hashes = new Map<string, number>();
+  for (let i = 0; i < sources.length; i++) {
+    const entries = json.get(sources[i].jsonUrl);
+    if (!entries?.length) continue;
+    const hash = await hashEntries(entries);
+    const first = hashes.get(hash);
+    if (first === undefined) {
+      hashes.set(hash, i);
+    } else {
+      covers[first].add(i);
+      covers[i].add(first);
+      link(first, i, DuplicateReason.IDENTICAL_JSON);
+    }
+  }
+
+  const urlSets = sources.map(source => new Set((json.get(source.jsonUrl) ?? []).map(entry => entry.bookSourceUrl)));
+  findOverlaps(urlSets, (shared, a, b) => shared === Math.min(urlSets[a].size, urlSets[b].size))
+    .forEach(([a, b]) => {
+      if (covers[a].has(b)) return; // Identical JSON already
+      if (urlSets[a].size <= urlSets[b].size) covers[a].add(b);
+      if (urlSets[b].size <= urlSets[a].size) covers[b].add(a);
+      link(a, b, DuplicateReason.URL_SUBSET);
+    });
+
+  const { find, union } = createUnionFind(sources.length);
+  covers.forEach((coveringSet, i) => coveringSet.forEach(j => union(i, j)));
+
+  const groups = new Map<number, number[]>();
+  sources.forEach((_, i) => {
+    const root = find(i);
+    const group = groups.get(root) ?? [];
+    group.push(i);
+    groups.set(root, group);
+  });
+
+  const clusters: DuplicateCluster[] = [];
+  groups.forEach(indices => {
+    if (indices.length < 2) return;
+    const members = indices.map(i => toMember(sources[i], json, Array.from(covers[i], j => sources[j].jsonUrl)));
+    const coveredCount = new Map<string, number>();
+    members.forEach(member => member.coveredBy.forEach(id => coveredCount.set(id, (coveredCount.get(id) ?? 0) + 1)));
+    // The file that includes the most others, then the bigger, then the newer one
+    members.sort((a, b) =>
+      (coveredCount.get(b.jsonUrl) ?? 0) - (coveredCount.get(a.jsonUrl) ?? 0) ||
+      (b.entryCount ?? 0) - (a.entryCount ?? 0) ||
+      (b.freshness ?? 0) - (a.freshness ?? 0));
+
+    const reasons = new Set<DuplicateReason>();
+    indices.forEach(a => indices.forEach(b => {
+      if (a < b) reasonsByPair.get(`${a},${b}`)?.forEach(reason => reasons.add(reason));
+    }));
+    clusters.push({
+      id: members.map(member => member.jsonUrl).join('+'),
+      members,
+      reasons: Array.from(reasons),
+      keepUrl: members[0].jsonUrl,
+      reviewOnly: false,
+    });
+  });
+
+  // Similar titles, skipping pairs already clustered by content. A source only joins a group
+  // whose every member its title is similar to.
+  const titleGrams = sources.map(source => bigrams(normalizeTitle(source.title)));
+  const similar = new Map<number, Set<number>>();
+  findOverlaps(
+    titleGrams,
+    (shared, a, b) => (2 * shared) / (titleGrams[a].size + titleGrams[b].size) >= TITLE_SIMILARITY_THRESHOLD,
+    MAX_BIGRAM_POSTINGS
+  ).forEach(([a, b]) => {
+    if (find(a) === find(b)) return;
+    similar.set(a, (similar.get(a) ?? new Set()).add(b));
+    similar.set(b, (similar.get(b) ?? new Set()).add(a));
+  });
+
+  const grouped = new Set<number>();
+  sources.forEach((_, seed) => {
+    if (grouped.has(seed) || !similar.has(seed)) return;
+    const group = [seed];
+    Array.from(similar.get(seed)!).sort((a, b) => a - b).forEach(candidate => {
+      if (!grouped.has(candidate) && group.every(member => similar.get(member)!.has(candidate))) group.push(candidate);
+    });
+    if (group.length < 2) return;
+    group.forEach(i => grouped.add(i));
+    const members = group.map(i => toMember(sources[i], json, []))
+      .sort((a, b) => (b.freshness ?? 0) - (a.freshness ?? 0) || (b.entryCount ?? 0) - (a.entryCount ?? 0));
+    clusters.push({
+      id: `title:${members.map(member => member.jsonUrl).join('+')}`,
+      members,
+      reasons: [DuplicateReason.SIMILAR_TITLE],
+      keepUrl: members[0].jsonUrl,
+      reviewOnly: true,
+    });
+  });
+
+  return clusters;
+};
+
+// Fetch (or reuse cached) JSON when asked, then cluster. Titles are always compared.
+export const findDuplicates = async (
+  sources: BookSource[],
+  compareJson: boolean,
+  onProgress?: (done: number, total: number) => void
+): Promise<DuplicateReport> => {
+  const json = new Map<string, LegadoBookSource[]>();
+  let failed = 0;
+  if (compareJson) {
+    const fetched = await fetchSourceJsonBatch(sources, onProgress);
+    fetched.forEach(({ source, result }) => {
+      if (result.success) json.set(source.jsonUrl, result.entries);
+      else failed++;
+    });
+  }
+  return { clusters: await clusterDuplicates(sources, json), checkedAt: Date.now(), failed };
+};
+
+// Drop the members whose sources are all in the one kept. When the keeper isn't in `list`
+// (filtered out, or not selected), the most complete listed member stands in for it.
+// Members matched by title alone are never dropped.
+export const removeRedundant = (list: BookSource[], report: DuplicateReport | null): BookSource[] => {
+  if (!report) return list;
+  const listed = new Set(list.map(source => source.jsonUrl));
+  const redundant = new Set<string>();
+  report.clusters.forEach(cluster => {
+    const present = cluster.members.filter(member => listed.has(member.jsonUrl));
+    const keepUrl = listed.has(cluster.keepUrl) ? cluster.keepUrl : present[0]?.jsonUrl;
+    present.forEach(member => {
+      if (member.jsonUrl !== keepUrl && member.coveredBy.includes(keepUrl)) redundant.add(member.jsonUrl);
+    });
+  });
+  return redundant.size > 0 ? list.filter(source => !redundant.has(source.jsonUrl)) : list;
+};
@@ -0,0 +1,98 @@
+import { BookSource, ExportFormat } from '../types';
+
+// Trigger a browser download for generated text content
+export const downloadTextFile = (filename: string, content: string, mimeType: string = 'text/plain') => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  URL.revokeObjectURL(url);
+};
+
+// Write to the clipboard, resolving to false when the browser refuses (denied permission,
+// an insecure origin, or the page lost focus while the text was being prepared)
+export const copyText = async (text: string): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (error) {
+    console.warn("Clipboard write failed:", error);
+    return false;
+  }
+};
+
+// YYYY-MM-DD stamp for generated file names
+export const fileDateStamp = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
+
+const EXPORT_FILE_INFO: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  [ExportFormat.CSV]: { extension: 'csv', mimeType: 'text/csv' },
+  [ExportFormat.MARKDOWN]: { extension: 'md', mimeType: 'text/markdown' },
+  [ExportFormat.JSON]: { extension: 'json', mimeType: 'application/json' },
+  [ExportFormat.URLS]: { extension: 'txt', mimeType: 'text/plain' },
+};
+
+const formatTimestamp = (timestamp?: number): string =>
+  timestamp !== undefined ? new Date(timestamp).toISOString() : '';
+
+// Spreadsheets run cells starting with these as formulas; a leading ' keeps them as text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string): string => {
+  if (FORMULA_PREFIX.test(value)) return `"'${value.replace(/"/g, '""')}"`;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const escapeMarkdown = (value: string): string => value.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+
+const toCsv = (sources: BookSource[]): string => {
+  const header = [
+    'id', 'title', 'updateDate', 'updatedAt', 'originalUrl', 'jsonUrl',
+    'uploader', 'sourceCount', 'downloads', 'likes', 'exactUpdatedAt', 'description',
+  ];
+  const rows = sources.map(source => [
+    source.id,
+    source.title,
+    source.updateDate ?? '',
+    formatTimestamp(source.updatedAt),
+    source.originalUrl,
+    source.jsonUrl,
+    source.uploader ?? '',
+    source.sourceCount?.toString() ?? '',
+    source.downloads?.toString() ?? '',
+    source.likes?.toString() ?? '',
+    formatTimestamp(source.exactUpdatedAt),
+    source.description ?? '',
+  ].map(escapeCsv).join(','));
+  return [header.join(','), ...rows].join('\r\n');
+};
+
+const toMarkdown = (sources: BookSource[]): string => {
+  const rows = sources.map(source =>
+    `| ${source.id} | ${escapeMarkdown(source.title)} | ${escapeMarkdown(source.uploader ?? '')} | ${escapeMarkdown(source.updateDate ?? '')} | ${source.downloads ?? ''} | ${source.jsonUrl} |`
+  );
+  return ['| ID | Title | Uploader | Updated | Downloads | JSON |', '| --- | --- | --- | --- | --- | --- |', ...rows].join('\n');
+};
+
+export const formatSources = (sources: BookSource[], format: ExportFormat): string => {
+  switch (format) {
+    case ExportFormat.CSV:
+      return toCsv(sources);
+    case ExportFormat.MARKDOWN:
+      return toMarkdown(sources);
+    case ExportFormat.JSON:
+      return JSON.stringify(sources, null, 2);
+    case ExportFormat.URLS:
+      return sources.map(source => source.jsonUrl).join('\n');
+  }
+};
+
+export const downloadSources = (sources: BookSource[], format: ExportFormat, baseName: string = 'book-sources') => {
+  const { extension, mimeType } = EXPORT_FILE_INFO[format];
+  // Excel only detects UTF-8 CSV (and so Chinese titles) with a byte order mark
+  const content = (format === ExportFormat.CSV ? '\uFEFF' : '') + formatSources(sources, format);
+  downloadTextFile(`${baseName}-${fileDateStamp()}.${extension}`, content, mimeType);
+};
@@ -0,0 +1,86 @@
+import { FetchAttempt, FetchFailureReason } from '../types';
+
+// Thrown by the proxy layer. Carries every attempt so callers can show what happened.
+export class FetchError extends Error {
+  readonly reason: FetchFailureReason;
+  readonly attempts: FetchAttempt[];
+
+  constructor(message: string, reason: FetchFailureReason, attempts: FetchAttempt[]) {
+    super(message);
+    this.name = 'FetchError';
+    this.reason = reason;
+    this.attempts = attempts;
+  }
+}
+
+// Failures that may clear up on their own. Validator rejections and 4xx (other than
+// rate limiting) come back the same way on every try, so they aren't retried.
+export const isRetryable = (attempt: FetchAttempt): boolean => {
+  if (attempt.ok) return false;
+  switch (attempt.reason) {
+    case FetchFailureReason.NETWORK:
+    case FetchFailureReason.TIMEOUT:
+      return true;
+    case FetchFailureReason.HTTP_STATUS:
+      return attempt.status === undefined || attempt.status === 429 || attempt.status >= 500;
+    default:
+      return false;
+  }
+};
+
+// Order used to pick the headline reason when attempts failed differently
+const REASON_PRIORITY: FetchFailureReason[] = [
+  FetchFailureReason.PARSE_ERROR,
+  FetchFailureReason.INVALID_CONTENT,
+  FetchFailureReason.HTTP_STATUS,
+  FetchFailureReason.TIMEOUT,
+  FetchFailureReason.NETWORK,
+  FetchFailureReason.CANCELLED,
+];
+
+export const primaryReason = (attempts: FetchAttempt[]): FetchFailureReason => {
+  const reasons = new Set(attempts.filter(a => !a.ok).map(a => a.reason));
+  return REASON_PRIORITY.find(reason => reasons.has(reason)) ?? FetchFailureReason.NETWORK;
+};
+
+// Best guess at where the problem is, from the pattern of failures across proxies
+export const diagnoseAttempts = (attempts: FetchAttempt[]): string => {
+  const failed = attempts.filter(a => !a.ok && a.reason !== FetchFailureReason.CANCELLED);
+  if (attempts.some(a => a.ok && a.via !== 'parser') && !failed.some(a => a.reason === FetchFailureReason.PARSE_ERROR)) {
+    return failed.length > 0 ? 'Succeeded after some proxies failed.' : 'Succeeded on the first try.';
+  }
+  if (failed.length === 0) return 'Cancelled before any proxy answered.';
+
+  const proxies = new Set(failed.map(a => a.via));
+  const count = (predicate: (a: FetchAttempt) => boolean) => failed.filter(predicate).length;
+  const serverErrors = count(a => a.reason === FetchFailureReason.HTTP_STATUS && (a.status ?? 0) >= 500);
+  const blocked = count(a => a.reason === FetchFailureReason.HTTP_STATUS && (a.status === 403 || a.status === 429));
+  const unreachable = count(a => a.reason === FetchFailureReason.NETWORK || a.reason === FetchFailureReason.TIMEOUT);
+  const invalid = count(a => a.reason === FetchFailureReason.INVALID_CONTENT);
+
+  if (count(a => a.reason === FetchFailureReason.PARSE_ERROR) > 0) {
+    return 'The page downloaded but no sources could be parsed. The site layout may have changed, or this page is past the end of the listing.';
+  }
+  if (serverErrors === failed.length && proxies.size > 1) {
+    return 'Every proxy got a server error from the target. The site itself is probably down.';
+  }
+  if (blocked + invalid === failed.length) {
+    return 'Proxies answered but were refused or served a block/captcha page. The proxies are probably blocked by the site.';
+  }
+  if (unreachable === failed.length) {
+    return 'No proxy could be reached in time. Check your network or the proxy hosts.';
+  }
+  return 'Mixed failures across proxies. See the timeline for details.';
+};
+
+export const describeAttempt = (attempt: FetchAttempt): string => {
+  if (attempt.ok) return attempt.status ? `OK (${attempt.status})` : 'OK';
+  switch (attempt.reason) {
+    case FetchFailureReason.HTTP_STATUS: return `HTTP ${attempt.status ?? '?'}`;
+    case FetchFailureReason.TIMEOUT: return 'Timed out';
+    case FetchFailureReason.INVALID_CONTENT: return 'Invalid content';
+    case FetchFailureReason.PARSE_ERROR: return 'Parse error';
+    case FetchFailureReason.CANCELLED: return 'Cancelled';
+    default: return 'Network error';
+  }
+};
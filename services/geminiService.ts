@@ -1,12 +1,11 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult } from '../types';
+import { AiProvider } from '../types';
+import { buildAnalyzePrompt, buildClassifyPrompt } from './aiPrompts';
 
-// Initialize Gemini Client
-// Note: In a real environment, ensure process.env.API_KEY is set.
-// If not set, this service handles the error gracefully.
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
 
-// Safely retrieve API key, handling environments where process might not be defined
-const getApiKey = () => {
+// Safely retrieve the build-time API key, handling environments where process might not be defined
+export const getEnvApiKey = () => {
   try {
     if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
       return process.env.API_KEY;
@@ -17,57 +16,63 @@ const getApiKey = () => {
   return '';
 };
 
-const apiKey = getApiKey();
-let ai: GoogleGenAI | null = null;
-
-if (apiKey) {
-  ai = new GoogleGenAI({ apiKey });
-}
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    tags: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING }
+    }
+  },
+  required: ["summary", "tags"]
+};
 
-export const analyzeTitles = async (titles: string[]): Promise<AnalysisResult | null> => {
-  if (!ai) {
-    console.warn("Gemini API Key is missing.");
-    return null;
-  }
+const CLASSIFICATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          tags: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
+          },
+          confidence: { type: Type.NUMBER }
+        },
+        required: ["id", "tags", "confidence"]
+      }
+    }
+  },
+  required: ["items"]
+};
 
-  if (titles.length === 0) return null;
+export const createGeminiProvider = (apiKey: string, model: string): AiProvider => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
 
-  try {
-    const prompt = `
-      Analyze the following list of book source titles. 
-      Provide a brief summary of the types of content available (e.g., "Mostly fantasy novels", "Mixed genres").
-      Also provide a list of up to 5 relevant tags/categories.
-      
-      Titles:
-      ${titles.slice(0, 50).join(", ")} ${(titles.length > 50 ? "...and more" : "")}
-    `;
+  const generate = async (prompt: string, responseSchema: object): Promise<unknown> => {
+    if (!ai) throw new Error("Gemini API Key is missing.");
 
     const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+      model: model || DEFAULT_GEMINI_MODEL,
       contents: prompt,
       config: {
         responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            summary: { type: Type.STRING },
-            tags: { 
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
-            }
-          },
-          required: ["summary", "tags"]
-        }
+        responseSchema
       }
     });
 
     const text = response.text;
     if (!text) throw new Error("No response from AI");
+    return JSON.parse(text);
+  };
 
-    return JSON.parse(text) as AnalysisResult;
-
-  } catch (error) {
-    console.error("Gemini Analysis Failed:", error);
-    return null;
-  }
-};
\ No newline at end of file
+  return {
+    isConfigured: () => !!ai,
+    analyze: (titles) => generate(buildAnalyzePrompt(titles), ANALYSIS_SCHEMA),
+    classify: (items) => generate(buildClassifyPrompt(items), CLASSIFICATION_SCHEMA),
+  };
+};
@@ -0,0 +1,74 @@
+import { BookSource, EntryHealth, HealthCheckOptions, HealthStatus, LegadoBookSource, SourceHealth } from '../types';
+import { fetchSourceJson } from './legadoService';
+import { probeUrl } from './proxyService';
+import { mapWithConcurrency } from './taskQueue';
+
+// Legado allows "https://site.com##comment" and similar suffixes on bookSourceUrl
+export const getSiteUrl = (bookSourceUrl: string): string => bookSourceUrl.split('#')[0].trim();
+
+// Build a GET URL from a Legado searchUrl template. Returns null for JS-generated
+// URLs, which can't be evaluated outside the app.
+export const buildSearchUrl = (entry: LegadoBookSource, keyword: string): string | null => {
+  const template = entry.searchUrl?.trim();
+  if (!template || template.startsWith('@js:') || template.includes('<js>')) return null;
+
+  // Request options (method, body, charset) follow the URL as ",{...}"
+  const path = template.split(/,\s*\{/)[0]
+    .replace(/\{\{\s*key\s*\}\}|searchKey/g, encodeURIComponent(keyword))
+    .replace(/\{\{\s*page\s*\}\}|searchPage/g, '1');
+
+  // Anything still templated needs JS evaluation
+  if (path.includes('{{')) return null;
+
+  try {
+    return new URL(path, getSiteUrl(entry.bookSourceUrl)).href;
+  } catch (e) {
+    return null;
+  }
+};
+
+const summarize = (entries: EntryHealth[]): HealthStatus => {
+  const alive = entries.filter(entry => entry.site.ok).length;
+  if (alive === entries.length) return HealthStatus.HEALTHY;
+  return alive > 0 ? HealthStatus.PARTIAL : HealthStatus.DEAD;
+};
+
+export const isWorking = (health?: SourceHealth): boolean =>
+  health?.status === HealthStatus.HEALTHY || health?.status === HealthStatus.PARTIAL;
+
+export const checkSourceHealth = async (source: BookSource, options: HealthCheckOptions): Promise<SourceHealth> => {
+  const json = await fetchSourceJson(source.jsonUrl);
+  if (!json.success) {
+    return { status: HealthStatus.ERROR, checkedAt: Date.now(), entries: [], error: json.error };
+  }
+
+  const probeOptions = { direct: options.direct, timeoutMs: options.timeoutMs, signal: options.signal };
+  const entries = await mapWithConcurrency(json.entries, 3, async (entry): Promise<EntryHealth> => {
+    const site = await probeUrl(getSiteUrl(entry.bookSourceUrl), probeOptions);
+    const searchUrl = options.keyword ? buildSearchUrl(entry, options.keyword) : null;
+    const search = searchUrl ? await probeUrl(searchUrl, probeOptions) : undefined;
+    return { bookSourceName: entry.bookSourceName, bookSourceUrl: entry.bookSourceUrl, site, search };
+  }, options.signal);
+
+  return { status: summarize(entries), checkedAt: Date.now(), entries };
+};
+
+// Check many cards; results for cards finished before a cancel are still returned
+export const checkSourcesHealth = async (
+  sources: BookSource[],
+  options: HealthCheckOptions
+): Promise<Map<string, SourceHealth>> => {
+  const results = new Map<string, SourceHealth>();
+  let done = 0;
+
+  await mapWithConcurrency(sources, options.concurrency, async (source) => {
+    const health = await checkSourceHealth(source, options);
+    if (!options.signal?.aborted) {
+      results.set(source.jsonUrl, health);
+    }
+    done++;
+    options.onProgress?.(done, sources.length);
+  }, options.signal);
+
+  return results;
+};
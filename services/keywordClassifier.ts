@@ -0,0 +1,55 @@
+import { AiProvider } from '../types';
+
+// Tag -> title keywords. Order matters: earlier tags win when reporting the page summary.
+const KEYWORD_RULES: [string, string[]][] = [
+  ['漫画', ['漫画', '漫畫', '动漫', '动画', 'manga', 'comic']],
+  ['听书', ['听书', '有声', '音频', '广播', '评书', 'fm', 'audio']],
+  ['轻小说', ['轻小说', '轻文', '日轻', 'lightnovel']],
+  ['玄幻', ['玄幻', '仙侠', '修真', '修仙', '武侠', '奇幻']],
+  ['言情', ['言情', '女频', '耽美', '纯爱', '百合', '甜文']],
+  ['都市', ['都市', '现代', '职场']],
+  ['科幻', ['科幻', '末世', '星际']],
+  ['历史', ['历史', '军事', '穿越']],
+  ['出版', ['出版', '文学', '名著', '经典', '图书', '书城', 'epub', 'pdf']],
+  ['正版', ['起点', '番茄', '七猫', '晋江', '纵横', '17k', '刺猬猫', '书旗', '掌阅', '正版']],
+  ['笔趣阁', ['笔趣', '趣阁', 'biquge']],
+  ['综合', ['综合', '聚合', '合集', '大全', '全网', '精选', '多源', '合并']],
+];
+
+const FALLBACK_TAG = '小说';
+
+const matchTags = (title: string): string[] => {
+  const normalized = title.toLowerCase();
+  return KEYWORD_RULES
+    .filter(([, keywords]) => keywords.some(keyword => normalized.includes(keyword)))
+    .map(([tag]) => tag);
+};
+
+// Deterministic classification from title keywords. Needs no network or key,
+// so it is always available as a fallback.
+export const createKeywordProvider = (): AiProvider => ({
+  isConfigured: () => true,
+
+  analyze: async (titles) => {
+    const counts = new Map<string, number>();
+    titles.forEach(title => {
+      const tags = matchTags(title);
+      (tags.length > 0 ? tags : [FALLBACK_TAG]).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    });
+    const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).slice(0, 5);
+    const summary = ranked.length === 0
+      ? 'No titles to analyze.'
+      : `Keyword scan of ${titles.length} titles: ${ranked.map(([tag, count]) => `${tag} (${count})`).join(', ')}.`;
+    return { summary, tags: ranked.map(([tag]) => tag) };
+  },
+
+  classify: async (items) => ({
+    items: items.map(({ id, title }) => {
+      const tags = matchTags(title).slice(0, 3);
+      // More matching keywords means more certainty, but a keyword is never proof
+      return tags.length > 0
+        ? { id, tags, confidence: Math.min(0.9, 0.5 + 0.15 * tags.length) }
+        : { id, tags: [FALLBACK_TAG], confidence: 0.2 };
+    }),
+  }),
+});
@@ -0,0 +1,217 @@
+import { BookSource, LegadoBookSource, LegadoContentKind, SourceJsonResult, MergeStrategy, MergeReport, MergeConflict, MergeCandidate } from '../types';
+import { describeFetchError } from './scraperService';
+import { fetchViaProxies } from './proxyService';
+import { mapWithConcurrency } from './taskQueue';
+import { getCached, setCached, isCacheFresh } from './cacheService';
+
+// Quick check that a proxied body looks like a JSON object or array
+const isJsonContent = (body: string): boolean => {
+  if (!body) return false;
+  const trimmed = body.trim();
+  return trimmed.startsWith('[') || trimmed.startsWith('{');
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasSourceUrl = (item: Record<string, unknown>): boolean =>
+  typeof item.bookSourceUrl === 'string' && item.bookSourceUrl.length > 0;
+
+const toEntry = (item: Record<string, unknown>): LegadoBookSource => {
+  const bookSourceUrl = hasSourceUrl(item) ? item.bookSourceUrl as string : '';
+  return {
+    ...item,
+    bookSourceUrl,
+    bookSourceName: typeof item.bookSourceName === 'string' ? item.bookSourceName : bookSourceUrl,
+  };
+};
+
+// Split parsed items into importable entries and the ones missing a bookSourceUrl
+const toSourceJsonResult = (items: unknown[]): SourceJsonResult => {
+  const objects = items.filter(isPlainObject);
+  const entries = objects.filter(hasSourceUrl).map(toEntry);
+  const unusable = objects.filter(item => !hasSourceUrl(item)).map(toEntry);
+
+  if (entries.length === 0) {
+    const error = unusable.length > 0
+      ? `JSON contains ${unusable.length} book source${unusable.length === 1 ? '' : 's'}, but none has a bookSourceUrl.`
+      : "JSON parsed but contains no Legado book sources.";
+    return { success: false, entries: [], unusable, error };
+  }
+
+  return unusable.length > 0 ? { success: true, entries, unusable } : { success: true, entries };
+};
+
+// Parse a Legado book source file. The site serves either a single source object
+// or an array of them; entries without a bookSourceUrl are set apart in `unusable`.
+export const parseLegadoSources = (text: string): SourceJsonResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    return { success: false, entries: [], error: `Invalid JSON: ${error.message}` };
+  }
+  return toSourceJsonResult(Array.isArray(parsed) ? parsed : [parsed]);
+};
+
+// The cache keeps every parsed entry, unusable ones included, so lint sees the same file offline
+export const getCachedSourceJson = async (jsonUrl: string) => {
+  const cached = await getCached<LegadoBookSource[]>(jsonUrl);
+  return cached?.kind === 'json' ? { ...cached, result: toSourceJsonResult(cached.value) } : null;
+};
+
+// Which rule sections an entry actually defines
+export const getRuleSections = (entry: LegadoBookSource) => ({
+  search: !!entry.searchUrl && isPlainObject(entry.ruleSearch),
+  explore: !!entry.exploreUrl || isPlainObject(entry.ruleExplore),
+  content: isPlainObject(entry.ruleContent),
+});
+
+// Fresh copies come from IndexedDB; a stale copy is still better than nothing when offline
+export const fetchSourceJson = async (jsonUrl: string): Promise<SourceJsonResult> => {
+  const cached = await getCachedSourceJson(jsonUrl);
+  if (cached && isCacheFresh(cached)) {
+    return cached.result;
+  }
+
+  try {
+    const text = await fetchViaProxies(jsonUrl, isJsonContent);
+    const result = parseLegadoSources(text);
+    if (result.success) {
+      await setCached(jsonUrl, 'json', [...result.entries, ...(result.unusable ?? [])]);
+    }
+    return result;
+  } catch (error: any) {
+    console.error(`Failed to fetch source JSON ${jsonUrl}:`, error);
+    if (cached) {
+      return cached.result;
+    }
+    return {
+      success: false,
+      entries: [],
+      error: `Could not download source JSON. (Details: ${describeFetchError(error)})`
+    };
+  }
+};
+
+export interface FetchedSourceJson {
+  source: BookSource;
+  result: SourceJsonResult;
+}
+
+// Download the JSON behind many cards, a few at a time
+export const fetchSourceJsonBatch = async (
+  sources: BookSource[],
+  onProgress?: (done: number, total: number) => void,
+  concurrency: number = 4
+): Promise<FetchedSourceJson[]> => {
+  let done = 0;
+  return mapWithConcurrency(sources, concurrency, async (source) => {
+    const result = await fetchSourceJson(source.jsonUrl);
+    done++;
+    onProgress?.(done, sources.length);
+    return { source, result };
+  });
+};
+
+const toCandidate = (sourceId: string, entry: LegadoBookSource): MergeCandidate => ({
+  sourceId,
+  bookSourceName: entry.bookSourceName,
+  lastUpdateTime: typeof entry.lastUpdateTime === 'number' ? entry.lastUpdateTime : undefined,
+});
+
+// Collapse entries from many files into one importable array, de-duplicated by bookSourceUrl
+export const mergeLegadoSources = (fetched: FetchedSourceJson[], strategy: MergeStrategy): MergeReport => {
+  const kept = new Map<string, { entry: LegadoBookSource; candidate: MergeCandidate }>();
+  const conflicts = new Map<string, MergeConflict>();
+  const failed: MergeReport['failed'] = [];
+  let totalEntries = 0;
+
+  fetched.forEach(({ source, result }) => {
+    if (!result.success) {
+      failed.push({ source, error: result.error || "Unknown error" });
+      return;
+    }
+
+    result.entries.forEach(entry => {
+      totalEntries++;
+      const key = entry.bookSourceUrl;
+      const candidate = toCandidate(source.id, entry);
+      const existing = kept.get(key);
+
+      if (!existing) {
+        kept.set(key, { entry, candidate });
+        return;
+      }
+
+      const replace = strategy === MergeStrategy.NEWEST &&
+        (candidate.lastUpdateTime ?? 0) > (existing.candidate.lastUpdateTime ?? 0);
+
+      const winner = replace ? candidate : existing.candidate;
+      const loser = replace ? existing.candidate : candidate;
+      const conflict = conflicts.get(key);
+      conflicts.set(key, {
+        bookSourceUrl: key,
+        kept: winner,
+        dropped: [...(conflict?.dropped ?? []), loser],
+      });
+
+      if (replace) {
+        kept.set(key, { entry, candidate });
+      }
+    });
+  });
+
+  return {
+    merged: Array.from(kept.values()).map(({ entry }) => entry),
+    totalEntries,
+    conflicts: Array.from(conflicts.values()),
+    failed,
+  };
+};
+
+const IMPORT_PATHS: Record<LegadoContentKind, string> = {
+  bookSource: 'bookSource',
+  rssSource: 'rssSource',
+  replaceRule: 'replaceRule',
+};
+
+// Deep link that opens Legado's import screen for a remote JSON file
+export const getImportLink = (jsonUrl: string, kind: LegadoContentKind = 'bookSource'): string =>
+  `legado://import/${IMPORT_PATHS[kind]}?src=${encodeURIComponent(jsonUrl)}`;
+
+// Legado also accepts the JSON itself as `src`, which lets one link carry many sources
+export const getInlineImportLink = (entries: LegadoBookSource[], kind: LegadoContentKind = 'bookSource'): string =>
+  `legado://import/${IMPORT_PATHS[kind]}?src=${encodeURIComponent(JSON.stringify(entries))}`;
+
+// Split entries into inline links of at most `maxLength` characters (all ASCII once encoded),
+// such as what fits one QR code. Entries too big for a link of their own are returned apart.
+export const chunkInlineImportLinks = (
+  entries: LegadoBookSource[],
+  maxLength: number,
+  kind: LegadoContentKind = 'bookSource'
+): { links: string[]; oversized: LegadoBookSource[] } => {
+  // "[", "]" and "," each encode to three characters
+  const baseLength = `legado://import/${IMPORT_PATHS[kind]}?src=`.length + 6;
+  const links: string[] = [];
+  const oversized: LegadoBookSource[] = [];
+  let chunk: LegadoBookSource[] = [];
+  let chunkLength = baseLength;
+
+  entries.forEach(entry => {
+    const length = encodeURIComponent(JSON.stringify(entry)).length;
+    if (baseLength + length > maxLength) {
+      oversized.push(entry);
+      return;
+    }
+    if (chunk.length > 0 && chunkLength + 3 + length > maxLength) {
+      links.push(getInlineImportLink(chunk, kind));
+      chunk = [];
+      chunkLength = baseLength;
+    }
+    chunkLength += (chunk.length > 0 ? 3 : 0) + length;
+    chunk.push(entry);
+  });
+  if (chunk.length > 0) links.push(getInlineImportLink(chunk, kind));
+  return { links, oversized };
+};
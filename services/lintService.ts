@@ -0,0 +1,129 @@
+import { BookSource, EntryLint, LegadoBookSource, LintIssue, LintSeverity, SourceJsonResult, SourceQuality } from '../types';
+import { fetchSourceJsonBatch, getCachedSourceJson } from './legadoService';
+
+const PENALTIES: Record<LintSeverity, number> = {
+  [LintSeverity.ERROR]: 30,
+  [LintSeverity.WARNING]: 10,
+  [LintSeverity.INFO]: 3,
+};
+
+// Score bands used for badges and the quality filter
+export const GOOD_QUALITY = 80;
+export const FAIR_QUALITY = 50;
+
+// Beyond either limit a source leans on JS more than on plain selectors
+const HEAVY_JS_RULES = 5;
+const HEAVY_JS_CHARS = 2000;
+
+const RULE_SECTIONS = ['ruleSearch', 'ruleExplore', 'ruleBookInfo', 'ruleToc', 'ruleContent'] as const;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isJsRule = (rule: string): boolean => /<js>|@js:/i.test(rule);
+
+// Every string rule in the rule sections, with its dotted path
+const collectRules = (entry: LegadoBookSource): { field: string; rule: string }[] =>
+  RULE_SECTIONS.flatMap(section => {
+    const rules = entry[section];
+    if (!isPlainObject(rules)) return [];
+    return Object.entries(rules)
+      .filter((pair): pair is [string, string] => typeof pair[1] === 'string' && pair[1].trim().length > 0)
+      .map(([key, rule]) => ({ field: `${section}.${key}`, rule }));
+  });
+
+// Regexes inside a rule: the "##regex##replacement" suffix and ":regex" AllInOne list rules
+const extractPatterns = (field: string, rule: string): string[] => {
+  if (isJsRule(rule) || rule.includes('{{')) return [];
+  const patterns: string[] = [];
+  const replacement = rule.split('##')[1];
+  if (replacement) patterns.push(replacement);
+  if (/\.(bookList|chapterList)$/.test(field) && rule.startsWith(':')) patterns.push(rule.slice(1));
+  return patterns;
+};
+
+// Legado runs Java regexes; drop the leading inline flags JS doesn't accept before compiling
+const regexError = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern.replace(/^\(\?[imsux]+\)/, ''));
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+};
+
+const isBlank = (value: unknown): boolean => typeof value !== 'string' || value.trim().length === 0;
+
+export const lintEntry = (entry: LegadoBookSource): EntryLint => {
+  const issues: LintIssue[] = [];
+  const add = (code: LintIssue['code'], severity: LintSeverity, message: string, field?: string) =>
+    issues.push({ code, severity, message, field });
+
+  // Sources without a name get their URL as name when parsed
+  if (isBlank(entry.bookSourceUrl)) add('missing-field', LintSeverity.ERROR, 'Missing bookSourceUrl', 'bookSourceUrl');
+  if (isBlank(entry.bookSourceName) || entry.bookSourceName === entry.bookSourceUrl) {
+    add('missing-field', LintSeverity.ERROR, 'Missing bookSourceName', 'bookSourceName');
+  }
+  if (isBlank(entry.searchUrl)) add('missing-field', LintSeverity.ERROR, 'Missing searchUrl', 'searchUrl');
+  if (!isPlainObject(entry.ruleSearch) || Object.keys(entry.ruleSearch).length === 0) {
+    add('missing-field', LintSeverity.ERROR, 'Missing ruleSearch', 'ruleSearch');
+  }
+
+  const rules = collectRules(entry);
+  rules.forEach(({ field, rule }) => extractPatterns(field, rule).forEach(pattern => {
+    const error = regexError(pattern);
+    if (error) add('invalid-regex', LintSeverity.ERROR, `Invalid regex: ${error}`, field);
+  }));
+
+  (['bookSourceUrl', 'searchUrl', 'exploreUrl'] as const).forEach(field => {
+    const url = entry[field];
+    if (typeof url === 'string' && url.trim().toLowerCase().startsWith('http://')) {
+      add('insecure-url', LintSeverity.WARNING, 'Plain http URL', field);
+    }
+  });
+
+  const jsRules = rules.filter(({ rule }) => isJsRule(rule));
+  const jsLib = entry.jsLib ?? '';
+  const jsChars = jsRules.reduce((sum, { rule }) => sum + rule.length, jsLib.length);
+  if (jsRules.length >= HEAVY_JS_RULES || jsChars >= HEAVY_JS_CHARS) {
+    add('heavy-js', LintSeverity.WARNING, `JavaScript in ${jsRules.length} rules (${jsChars} chars)`);
+  }
+
+  if (entry.enabled === false) add('disabled', LintSeverity.WARNING, 'Disabled by its author', 'enabled');
+  if (!isBlank(entry.loginUrl) || entry.loginUi) add('login-required', LintSeverity.INFO, 'Requires logging in', 'loginUrl');
+
+  const penalty = issues.reduce((sum, issue) => sum + PENALTIES[issue.severity], 0);
+  return {
+    bookSourceName: entry.bookSourceName,
+    bookSourceUrl: entry.bookSourceUrl,
+    score: Math.max(0, 100 - penalty),
+    issues,
+  };
+};
+
+export const lintSourceJson = (result: SourceJsonResult): SourceQuality => {
+  if (!result.success) {
+    return { checkedAt: Date.now(), entries: [], error: result.error };
+  }
+  const entries = [...result.entries, ...(result.unusable ?? [])].map(lintEntry);
+  const score = Math.round(entries.reduce((sum, entry) => sum + entry.score, 0) / entries.length);
+  return { score, checkedAt: Date.now(), entries };
+};
+
+// Score every source whose JSON is already cached, without any network requests
+export const loadCachedQuality = async (sources: BookSource[]): Promise<Map<string, SourceQuality>> => {
+  const result = new Map<string, SourceQuality>();
+  await Promise.all(sources.map(async source => {
+    const cached = await getCachedSourceJson(source.jsonUrl);
+    if (cached) result.set(source.jsonUrl, lintSourceJson(cached.result));
+  }));
+  return result;
+};
+
+export const lintSources = async (
+  sources: BookSource[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<string, SourceQuality>> => {
+  const fetched = await fetchSourceJsonBatch(sources, onProgress);
+  return new Map(fetched.map(({ source, result }) => [source.jsonUrl, lintSourceJson(result)]));
+};
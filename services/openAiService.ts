@@ -0,0 +1,43 @@
+import { AiProvider } from '../types';
+import { buildAnalyzePrompt, buildClassifyPrompt } from './aiPrompts';
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+// Any server implementing POST /chat/completions: OpenAI, llama.cpp, Ollama, LM Studio...
+export const createOpenAiCompatibleProvider = (baseUrl: string, model: string, apiKey: string): AiProvider => {
+  const endpoint = `${(baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+
+  const generate = async (prompt: string): Promise<unknown> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: model || DEFAULT_OPENAI_MODEL,
+        messages: [
+          { role: 'system', content: 'You are a precise assistant that only responds with valid JSON.' },
+          { role: 'user', content: prompt },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0,
+      }),
+    });
+    if (!response.ok) throw new Error(`LLM endpoint error: ${response.status}`);
+
+    const data = await response.json();
+    const text: unknown = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || !text) throw new Error("No response from AI");
+
+    // Local models sometimes wrap JSON in a markdown fence despite response_format
+    return JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  };
+
+  return {
+    isConfigured: () => !!baseUrl,
+    analyze: (titles) => generate(buildAnalyzePrompt(titles)),
+    classify: (items) => generate(buildClassifyPrompt(items)),
+  };
+};
@@ -0,0 +1,20 @@
+// Web Worker that parses listing pages and builds search indexes off the main thread.
+// Started by workerClient.ts; DOMParser doesn't exist in workers, so it uses linkedom like the CLI.
+import { parseHTML } from 'linkedom';
+import { parseHtmlContent, setHtmlParser } from './scraperService';
+import { getAdapter } from './siteAdapters';
+import { buildSearchIndex } from './searchService';
+import type { WorkerRequest, WorkerResponse } from './workerClient';
+
+setHtmlParser((html) => parseHTML(html).document as unknown as Document);
+
+const respond = (response: WorkerResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'parse') {
+    respond({ id: message.id, type: 'parse', result: parseHtmlContent(message.html, message.fetchedAt, getAdapter(message.adapterId)) });
+  } else {
+    respond({ id: message.id, type: 'index', indexes: message.titles.map(buildSearchIndex) });
+  }
+};
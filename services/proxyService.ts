@@ -0,0 +1,350 @@
+import { ProxyAdapter, ProxyConfig, ProxyStats, ProbeResult, FetchAttempt, FetchFailureReason } from '../types';
+import { FetchError, isRetryable, primaryReason } from './fetchErrors';
+
+const PROXIES_STORAGE_KEY = 'bse.proxies';
+const STATS_STORAGE_KEY = 'bse.proxyStats';
+
+// How many proxies are raced per round. Remaining proxies are only tried if a round fails.
+const RACE_WIDTH = 2;
+
+// Extra passes over the proxy list after a retryable failure, waiting
+// RETRY_BASE_DELAY_MS, then twice that, and so on (plus a little jitter)
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export const DEFAULT_PROXIES: ProxyConfig[] = [
+  {
+    id: 'corsproxy',
+    name: 'CorsProxy.io',
+    template: 'https://corsproxy.io/?{url}',
+    adapter: ProxyAdapter.RAW,
+    timeoutMs: 15000,
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: 'allorigins',
+    name: 'AllOrigins',
+    template: 'https://api.allorigins.win/get?url={encodedUrl}',
+    adapter: ProxyAdapter.ALLORIGINS_JSON,
+    timeoutMs: 20000,
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: 'codetabs',
+    name: 'CodeTabs',
+    template: 'https://api.codetabs.com/v1/proxy?quest={url}',
+    adapter: ProxyAdapter.RAW,
+    timeoutMs: 15000,
+    enabled: true,
+    builtIn: true,
+  },
+];
+
+// Validates a proxied response body before we accept it
+export type ContentValidator = (body: string) => boolean;
+
+const readStorage = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+const writeStorage = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    // Storage may be full or disabled; stats are best-effort
+  }
+};
+
+let proxies: ProxyConfig[] = readStorage(PROXIES_STORAGE_KEY, DEFAULT_PROXIES);
+let stats: Record<string, ProxyStats> = readStorage(STATS_STORAGE_KEY, {});
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Re-render hook for settings UI; returns an unsubscribe function
+export const subscribeProxies = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getProxies = (): ProxyConfig[] => proxies;
+
+export const saveProxies = (next: ProxyConfig[]) => {
+  proxies = next;
+  writeStorage(PROXIES_STORAGE_KEY, proxies);
+  notify();
+};
+
+export const resetProxies = () => saveProxies(DEFAULT_PROXIES);
+
+export const getProxyStats = (): Record<string, ProxyStats> => stats;
+
+export const resetProxyStats = () => {
+  stats = {};
+  writeStorage(STATS_STORAGE_KEY, stats);
+  notify();
+};
+
+const recordResult = (proxyId: string, ok: boolean, latencyMs: number, error?: string) => {
+  const current = stats[proxyId] ?? { successes: 0, failures: 0, totalLatencyMs: 0 };
+  stats = {
+    ...stats,
+    [proxyId]: ok
+      ? { ...current, successes: current.successes + 1, totalLatencyMs: current.totalLatencyMs + latencyMs, lastUsedAt: Date.now() }
+      : { ...current, failures: current.failures + 1, lastError: error, lastUsedAt: Date.now() },
+  };
+  writeStorage(STATS_STORAGE_KEY, stats);
+  notify();
+};
+
+export const getAverageLatency = (proxyStats?: ProxyStats): number | undefined =>
+  proxyStats && proxyStats.successes > 0 ? Math.round(proxyStats.totalLatencyMs / proxyStats.successes) : undefined;
+
+// Smoothed success rate for ranking, so an untried proxy starts at 50% rather than 0 or 100
+const getSmoothedSuccessRate = (proxyStats?: ProxyStats): number => {
+  const successes = proxyStats?.successes ?? 0;
+  const failures = proxyStats?.failures ?? 0;
+  return (successes + 1) / (successes + failures + 2);
+};
+
+// Healthiest first: success rate, then faster average latency
+const rankProxies = (list: ProxyConfig[]): ProxyConfig[] =>
+  [...list].sort((a, b) => {
+    const rateDiff = getSmoothedSuccessRate(stats[b.id]) - getSmoothedSuccessRate(stats[a.id]);
+    if (Math.abs(rateDiff) > 0.05) return rateDiff;
+    return (getAverageLatency(stats[a.id]) ?? Infinity) - (getAverageLatency(stats[b.id]) ?? Infinity);
+  });
+
+export const buildProxyUrl = (proxy: ProxyConfig, targetUrl: string): string => {
+  if (proxy.template.includes('{encodedUrl}')) {
+    return proxy.template.replace('{encodedUrl}', encodeURIComponent(targetUrl));
+  }
+  if (proxy.template.includes('{url}')) {
+    return proxy.template.replace('{url}', targetUrl);
+  }
+  return `${proxy.template}${targetUrl}`;
+};
+
+// JSON-wrapping proxies also report the target's own status, which is more telling than theirs
+const extractBody = async (proxy: ProxyConfig, response: Response): Promise<{ body: string; targetStatus?: number }> => {
+  if (proxy.adapter === ProxyAdapter.ALLORIGINS_JSON) {
+    const data = await response.json();
+    return {
+      body: typeof data?.contents === 'string' ? data.contents : '',
+      targetStatus: typeof data?.status?.http_code === 'number' ? data.status.http_code : undefined,
+    };
+  }
+  return { body: await response.text() };
+};
+
+// Fetch through a single proxy, honouring its timeout and an outer cancel signal.
+// Every outcome, including losing the race, is reported to `record`.
+const fetchThroughProxy = async (
+  proxy: ProxyConfig,
+  targetUrl: string,
+  validate: ContentValidator,
+  signal: AbortSignal,
+  round: number,
+  record: (attempt: FetchAttempt) => void
+): Promise<string> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal.addEventListener('abort', onAbort);
+  const timer = setTimeout(() => controller.abort(), proxy.timeoutMs);
+  const requestUrl = buildProxyUrl(proxy, targetUrl);
+  const startedAt = Date.now();
+  const startedPerf = performance.now();
+  let status: number | undefined;
+
+  const finish = (ok: boolean, reason?: FetchFailureReason, message?: string): FetchAttempt => {
+    const attempt: FetchAttempt = {
+      targetUrl, requestUrl, via: proxy.name, round, startedAt,
+      durationMs: Math.round(performance.now() - startedPerf),
+      ok, status, reason, message,
+    };
+    record(attempt);
+    return attempt;
+  };
+
+  try {
+    const response = await fetch(requestUrl, { signal: controller.signal });
+    status = response.status;
+    if (!response.ok) {
+      throw new FetchError(`${proxy.name} error: ${response.status}`, FetchFailureReason.HTTP_STATUS, []);
+    }
+    const { body, targetStatus } = await extractBody(proxy, response);
+    if (targetStatus !== undefined) status = targetStatus;
+    if (targetStatus !== undefined && targetStatus >= 400) {
+      throw new FetchError(`${proxy.name}: target returned ${targetStatus}`, FetchFailureReason.HTTP_STATUS, []);
+    }
+    if (!validate(body)) {
+      throw new FetchError(`${proxy.name} returned invalid content`, FetchFailureReason.INVALID_CONTENT, []);
+    }
+    recordResult(proxy.id, true, performance.now() - startedPerf);
+    finish(true);
+    return body;
+  } catch (error: any) {
+    // Losing a race is not the proxy's fault, so only real failures count against it
+    if (signal.aborted) {
+      const attempt = finish(false, FetchFailureReason.CANCELLED, `${proxy.name} cancelled`);
+      throw new FetchError(attempt.message!, FetchFailureReason.CANCELLED, [attempt]);
+    }
+    const timedOut = controller.signal.aborted;
+    const reason = timedOut
+      ? FetchFailureReason.TIMEOUT
+      : error instanceof FetchError ? error.reason : FetchFailureReason.NETWORK;
+    const message = timedOut ? `${proxy.name} timed out after ${proxy.timeoutMs}ms` : error.message;
+    recordResult(proxy.id, false, performance.now() - startedPerf, message);
+    const attempt = finish(false, reason, message);
+    throw new FetchError(message, reason, [attempt]);
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', onAbort);
+  }
+};
+
+const cancelledError = (attempts: FetchAttempt[]) =>
+  new FetchError("Request cancelled", FetchFailureReason.CANCELLED, attempts);
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+const waitForRetry = (ms: number, attempts: FetchAttempt[], signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError(attempts));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError(attempts));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface FetchViaProxiesOptions {
+  retries?: number;
+  onAttempt?: (attempt: FetchAttempt) => void; // Live timeline, including successful attempts
+}
+
+// Try enabled proxies in groups of RACE_WIDTH, healthiest first. The first valid
+// body wins and the other requests in its group are aborted. If every proxy fails
+// and at least one failure looks transient, the whole pass is retried with backoff.
+// Throws a FetchError carrying every attempt.
+export const fetchViaProxies = async (
+  targetUrl: string,
+  validate: ContentValidator,
+  signal?: AbortSignal,
+  options: FetchViaProxiesOptions = {}
+): Promise<string> => {
+  const attempts: FetchAttempt[] = [];
+  const record = (attempt: FetchAttempt) => {
+    attempts.push(attempt);
+    options.onAttempt?.(attempt);
+  };
+  const retries = Math.max(0, options.retries ?? MAX_RETRIES);
+
+  for (let round = 0; round <= retries; round++) {
+    if (round > 0) {
+      if (!attempts.some(attempt => attempt.round === round - 1 && isRetryable(attempt))) break;
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (round - 1) + Math.random() * 250;
+      console.log(`Retrying ${targetUrl} in ${Math.round(delay)}ms (retry ${round}/${retries})...`);
+      await waitForRetry(delay, attempts, signal);
+    }
+
+    // Re-ranked each pass so failures from the previous one push those proxies back
+    const ranked = rankProxies(proxies.filter(p => p.enabled));
+    if (ranked.length === 0) throw new FetchError("No proxies are enabled", FetchFailureReason.NETWORK, attempts);
+
+    for (let i = 0; i < ranked.length; i += RACE_WIDTH) {
+      if (signal?.aborted) throw cancelledError(attempts);
+
+      const group = ranked.slice(i, i + RACE_WIDTH);
+      const groupController = new AbortController();
+      const onAbort = () => groupController.abort();
+      signal?.addEventListener('abort', onAbort);
+
+      try {
+        return await Promise.any(group.map(proxy =>
+          fetchThroughProxy(proxy, targetUrl, validate, groupController.signal, round, record)
+        ));
+      } catch (error) {
+        // Each failure is already in `attempts`; move on to the next group
+      } finally {
+        groupController.abort();
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  if (signal?.aborted) throw cancelledError(attempts);
+  throw new FetchError("All proxies failed", primaryReason(attempts), attempts);
+};
+
+// Reach a URL and report the target's status and latency rather than its body.
+// Used for liveness checks, so results don't feed into proxy health stats.
+export const probeUrl = async (
+  targetUrl: string,
+  options: { direct: boolean; timeoutMs: number; signal?: AbortSignal }
+): Promise<ProbeResult> => {
+  const candidates: (ProxyConfig | null)[] = options.direct ? [null] : rankProxies(proxies.filter(p => p.enabled));
+  if (candidates.length === 0) {
+    return { url: targetUrl, ok: false, latencyMs: 0, error: "No proxies are enabled", via: 'none' };
+  }
+
+  let last: ProbeResult | null = null;
+
+  // Only move on to the next proxy when the proxy itself failed to answer
+  for (const proxy of candidates) {
+    if (options.signal?.aborted) break;
+
+    const via = proxy ? proxy.name : 'direct';
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort);
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+    const startedAt = performance.now();
+
+    try {
+      const response = await fetch(proxy ? buildProxyUrl(proxy, targetUrl) : targetUrl, { signal: controller.signal });
+      let status = response.status;
+      // A direct answer is the target's. Through a proxy only the allorigins envelope says so;
+      // a pass-through proxy's 403, 429 or 5xx may be its own refusal.
+      let fromTarget = !proxy;
+      if (proxy?.adapter === ProxyAdapter.ALLORIGINS_JSON && response.ok) {
+        const data = await response.json();
+        fromTarget = typeof data?.status?.http_code === 'number';
+        status = fromTarget ? data.status.http_code : status;
+      } else {
+        await response.text();
+      }
+      const latencyMs = Math.round(performance.now() - startedAt);
+      const ok = status >= 200 && status < 400;
+      if (ok || fromTarget) {
+        return { url: targetUrl, ok, status, latencyMs, via, error: ok ? undefined : `HTTP ${status}` };
+      }
+      last = { url: targetUrl, ok: false, latencyMs, via, error: `${via} answered HTTP ${status}` };
+    } catch (error: any) {
+      last = {
+        url: targetUrl,
+        ok: false,
+        latencyMs: Math.round(performance.now() - startedAt),
+        error: options.signal?.aborted
+          ? "Cancelled"
+          : controller.signal.aborted ? `Timed out after ${options.timeoutMs}ms` : error.message,
+        via,
+      };
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  return last ?? { url: targetUrl, ok: false, latencyMs: 0, error: "Cancelled", via: 'none' };
+};
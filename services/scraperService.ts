@@ -1,160 +1,233 @@
-import { BookSource, ScrapeResult } from '../types';
-import { TARGET_URL, BASE_URL, JSON_BASE_URL } from '../constants';
-
-// Proxy definitions
-const PROXY_CORS_IO = "https://corsproxy.io/?";
-const PROXY_ALL_ORIGINS = "https://api.allorigins.win/get?url=";
-const PROXY_CODETABS = "https://api.codetabs.com/v1/proxy?quest=";
-
-// Helper to check if HTML looks like it contains what we want
-const isValidContent = (html: string): boolean => {
-  if (!html || html.length < 500) return false; // Too short to be the real index page
-  // Check for the specific link pattern we need
-  const hasLinks = /content\/id\/\d+\.html/.test(html);
-  return hasLinks;
+import { BookSource, ScrapeResult, CrawlOptions, CrawlProgress, CrawlResult, SiteAdapter, PageInfo, FetchAttempt, FetchDiagnostics, FetchFailureReason } from '../types';
+import { fetchViaProxies } from './proxyService';
+import { FetchError, primaryReason } from './fetchErrors';
+import { getCached, setCached, isCacheFresh } from './cacheService';
+import { parseUpdateDate } from './dateParser';
+import { DEFAULT_ADAPTER } from './siteAdapters';
+
+// Turns HTML into something we can query for links. The browser's DOMParser is the
+// default; headless callers (see cli/) plug in their own implementation.
+export type HtmlParser = (html: string) => Pick<Document, 'querySelectorAll'>;
+
+const browserHtmlParser: HtmlParser = (html) => new DOMParser().parseFromString(html, 'text/html');
+
+let htmlParser: HtmlParser = browserHtmlParser;
+
+export const setHtmlParser = (parser: HtmlParser) => {
+  htmlParser = parser;
 };
 
-// Fetchers
-const fetchViaCorsProxy = async (url: string): Promise<string> => {
-  const response = await fetch(`${PROXY_CORS_IO}${url}`);
-  if (!response.ok) throw new Error(`CorsProxy error: ${response.status}`);
-  const html = await response.text();
-  if (!isValidContent(html)) throw new Error("CorsProxy returned invalid content");
-  return html;
+// The active parser, for other services that read site HTML
+export const parseHtml = (html: string) => htmlParser(html);
+
+// Parses a whole listing page. Runs inline by default; the app swaps in a Web Worker
+// (see workerClient) so big pages don't block the UI.
+export type PageParser = (html: string, fetchedAt: number, adapter: SiteAdapter) => Promise<ScrapeResult>;
+
+let pageParser: PageParser = async (html, fetchedAt, adapter) => parseHtmlContent(html, fetchedAt, adapter);
+
+export const setPageParser = (parser: PageParser) => {
+  pageParser = parser;
 };
 
-const fetchViaAllOrigins = async (url: string): Promise<string> => {
-  const encodedUrl = encodeURIComponent(url);
-  const response = await fetch(`${PROXY_ALL_ORIGINS}${encodedUrl}&timestamp=${Date.now()}`);
-  if (!response.ok) throw new Error(`AllOrigins error: ${response.status}`);
-  const data = await response.json();
-  const html = data.contents;
-  if (!isValidContent(html)) throw new Error("AllOrigins returned invalid content");
-  return html;
+export const parsePage = (
+  html: string,
+  fetchedAt: number = Date.now(),
+  adapter: SiteAdapter = DEFAULT_ADAPTER
+): Promise<ScrapeResult> => pageParser(html, fetchedAt, adapter);
+
+// Flatten a FetchError's attempts (or an AggregateError from Promise.any) into a readable message
+export const describeFetchError = (error: any): string => {
+  if (error instanceof FetchError) {
+    const messages = error.attempts
+      .filter(attempt => !attempt.ok && attempt.reason !== FetchFailureReason.CANCELLED && attempt.message)
+      .map(attempt => attempt.round > 0 ? `${attempt.message} (retry ${attempt.round})` : attempt.message);
+    return messages.length > 0 ? messages.join("; ") : error.message;
+  }
+  if (error && (error.name === 'AggregateError' || Array.isArray(error.errors))) {
+    return (error as any).errors.map((e: any) => e.message).join("; ");
+  } else if (error instanceof Error) {
+    return error.message;
+  }
+  return "Unknown error";
 };
 
-const fetchViaCodeTabs = async (url: string): Promise<string> => {
-  const response = await fetch(`${PROXY_CODETABS}${url}`);
-  if (!response.ok) throw new Error(`CodeTabs error: ${response.status}`);
-  const html = await response.text();
-  if (!isValidContent(html)) throw new Error("CodeTabs returned invalid content");
-  return html;
+// What we store per listing page. Entries written before pagination was parsed are bare arrays.
+type CachedPage = { sources: BookSource[]; pagination?: PageInfo } | BookSource[];
+
+export interface CachedScrapeResult {
+  result: ScrapeResult;
+  storedAt: number;
+  fresh: boolean;
+}
+
+// Last successful parse of a page, regardless of age. Callers decide whether to revalidate.
+export const loadCachedBookSources = async (
+  page: number,
+  adapter: SiteAdapter = DEFAULT_ADAPTER
+): Promise<CachedScrapeResult | null> => {
+  const entry = await getCached<CachedPage>(adapter.getPageUrl(page));
+  if (!entry) return null;
+  const { sources, pagination } = Array.isArray(entry.value) ? { sources: entry.value, pagination: undefined } : entry.value;
+  // Entries cached before dates were normalised only carry the raw text
+  const data = sources.map(source =>
+    source.updatedAt === undefined && source.updateDate
+      ? { ...source, updatedAt: parseUpdateDate(source.updateDate, entry.storedAt) }
+      : source
+  );
+  return {
+    result: { success: true, data, pagination },
+    storedAt: entry.storedAt,
+    fresh: isCacheFresh(entry),
+  };
 };
 
-export const fetchBookSources = async (page: number = 1): Promise<ScrapeResult> => {
-  // Construct the specific URL for the page
-  const urlToFetch = page === 1 ? TARGET_URL : `${TARGET_URL}?page=${page}`;
+export const fetchBookSources = async (
+  page: number = 1,
+  signal?: AbortSignal,
+  adapter: SiteAdapter = DEFAULT_ADAPTER
+): Promise<ScrapeResult> => {
+  const urlToFetch = adapter.getPageUrl(page);
   
   console.log(`Fetching page ${page}: ${urlToFetch}`);
 
-  // We define a set of strategies (promises) to race against each other.
-  // We use Promise.any() to get the first *successful* result.
-  const strategies: Promise<string>[] = [
-    fetchViaCorsProxy(urlToFetch),
-    fetchViaAllOrigins(urlToFetch),
-    fetchViaCodeTabs(urlToFetch),
-  ];
-  
-  // Add fallback only for page 1 logic, or generic fallback
-  if (page === 1) {
-      strategies.push(fetchViaCorsProxy(BASE_URL + "/"));
-  }
+  const startedAt = Date.now();
+  const attempts: FetchAttempt[] = [];
+  const diagnose = (ok: boolean): FetchDiagnostics => ({
+    startedAt,
+    durationMs: Date.now() - startedAt,
+    ok,
+    reason: ok ? undefined : primaryReason(attempts),
+    attempts,
+  });
 
   try {
-    console.log("Starting concurrent fetch strategies...");
-    // @ts-ignore - Promise.any is ES2021
-    const html = await Promise.any(strategies);
+    let html: string | null = null;
+    let lastError: unknown;
+    for (const url of [urlToFetch, ...(adapter.getFallbackPageUrls?.(page) ?? [])]) {
+      try {
+        html = await fetchViaProxies(url, adapter.isListingPage, signal, { onAttempt: attempt => attempts.push(attempt) });
+        break;
+      } catch (error) {
+        lastError = error;
+        if (signal?.aborted) break;
+        console.log(`Fetching ${url} failed, trying next URL...`);
+      }
+    }
+    if (html === null) throw lastError;
+
     console.log("Successfully fetched valid HTML content.");
-    return parseHtmlContent(html);
+    const parseStartedAt = Date.now();
+    const result = await parsePage(html, Date.now(), adapter);
+    if (result.success) {
+      await setCached<CachedPage>(urlToFetch, 'page', { sources: result.data, pagination: result.pagination });
+    } else {
+      attempts.push({
+        targetUrl: urlToFetch,
+        requestUrl: urlToFetch,
+        via: 'parser',
+        round: 0,
+        startedAt: parseStartedAt,
+        durationMs: Date.now() - parseStartedAt,
+        ok: false,
+        reason: FetchFailureReason.PARSE_ERROR,
+        message: result.error,
+      });
+    }
+    return { ...result, diagnostics: diagnose(result.success) };
   } catch (error: any) {
     console.error("All fetch strategies failed:", error);
     
     // Construct a detailed error message
-    let errorDetails = "Unknown error";
-    
-    if (error && (error.name === 'AggregateError' || Array.isArray(error.errors))) {
-      errorDetails = (error as any).errors.map((e: any) => e.message).join("; ");
-    } else if (error instanceof Error) {
-      errorDetails = error.message;
-    }
+    const errorDetails = describeFetchError(error);
 
     return {
       success: false,
       data: [],
-      error: `Auto-fetch failed for Page ${page}. All proxies were blocked or returned invalid data. Please use Manual Mode or try again. (Details: ${errorDetails})`
+      error: `Auto-fetch failed for Page ${page}. All proxies were blocked or returned invalid data. Please use Manual Mode or try again. (Details: ${errorDetails})`,
+      diagnostics: diagnose(false)
     };
   }
 };
 
-export const parseHtmlContent = (html: string): ScrapeResult => {
+// Resolve a listing link against the adapter's base, tolerating malformed hrefs
+const resolveListingUrl = (href: string, adapter: SiteAdapter): string => {
   try {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
+    return new URL(href, adapter.baseUrl + '/').href;
+  } catch (e) {
+    return href.startsWith('http') ? href : `${adapter.baseUrl}/${href.replace(/^\//, '')}`;
+  }
+};
+
+// Pagination link labels as they appear on Chinese and English listing sites
+const NEXT_TEXT = /^(?:下一?页|后一页|next|[>›»])[>›»]?$/i;
+const PREV_TEXT = /^[<‹«]?(?:上一?页|前一页|prev(?:ious)?|[<‹«])$/i;
+const LAST_TEXT = /^(?:末页|尾页|最后一?页|last)[>›»]*$|^(?:>>|»»|>\|)$/i;
+// "共 25 页", "第 3/25 页", "Page 3 of 25"
+const TOTAL_TEXT = /共\s*(\d+)\s*页|第\s*\d+\s*\/\s*(\d+)\s*页|page\s+\d+\s+of\s+(\d+)/i;
+
+// Read next/prev links and the page count from a listing's pagination bar
+export const extractPagination = (doc: Pick<Document, 'querySelectorAll'>, adapter: SiteAdapter): PageInfo => {
+  const info: PageInfo = {};
+  let lastLinkedPage: number | undefined;
+
+  Array.from(doc.querySelectorAll('a')).forEach(link => {
+    const href = link.getAttribute('href');
+    const page = href ? adapter.extractPageNumber(href) : null;
+    if (!href || page === null) return;
+
+    const text = (link.textContent || '').replace(/\s+/g, '');
+    const rel = link.getAttribute('rel') || '';
+    if (info.nextPage === undefined && (/\bnext\b/i.test(rel) || NEXT_TEXT.test(text))) {
+      info.nextPage = page;
+      info.nextUrl = resolveListingUrl(href, adapter);
+    } else if (info.prevPage === undefined && (/\bprev\b/i.test(rel) || PREV_TEXT.test(text))) {
+      info.prevPage = page;
+      info.prevUrl = resolveListingUrl(href, adapter);
+    } else if (LAST_TEXT.test(text)) {
+      lastLinkedPage = page;
+    }
+    info.highestLinkedPage = Math.max(info.highestLinkedPage ?? 0, page);
+  });
+
+  const bodyText = (doc.querySelectorAll('body')[0]?.textContent || '').replace(/\s+/g, ' ');
+  const total = bodyText.match(TOTAL_TEXT);
+  const totalPages = total ? parseInt(total[1] || total[2] || total[3], 10) : lastLinkedPage;
+  if (totalPages && totalPages > 0) info.totalPages = totalPages;
+
+  return info;
+};
+
+// `fetchedAt` anchors relative dates like "5天前" to when the HTML was captured
+export const parseHtmlContent = (
+  html: string,
+  fetchedAt: number = Date.now(),
+  adapter: SiteAdapter = DEFAULT_ADAPTER
+): ScrapeResult => {
+  try {
+    const doc = htmlParser(html);
     const links = Array.from(doc.querySelectorAll('a'));
     
     const uniqueSources = new Map<string, BookSource>();
 
-    // Regex to match content/id/xxxxx.html
-    const idRegex = /content\/id\/(\d+)\.html/;
-    
-    // Regex 1: YYYY-MM-DD
-    const dateRegex1 = /(\d{4}-\d{2}-\d{2})/;
-    // Regex 2: MM/DD HH:mm (e.g., 11/24 13:02)
-    const dateRegex2 = /(\d{1,2}\/\d{1,2}\s+\d{1,2}:\d{1,2})/;
-    // Regex 3: Relative time (e.g., 5天前, 18小时前, 30分钟前)
-    const dateRegex3 = /(\d+\s*(?:天|小时|分钟|秒)前)/;
-
     links.forEach(link => {
       const href = link.getAttribute('href');
       if (!href) return;
 
-      const match = href.match(idRegex);
-      if (match) {
-        const id = match[1];
+      const id = adapter.extractId(href);
+      if (id) {
         // Clean up title: remove newlines, extra spaces
         const title = link.textContent?.replace(/\s+/g, ' ').trim() || `Source ${id}`;
         
         // Construct the full JSON URL
-        const jsonUrl = `${JSON_BASE_URL}/${id}.json`;
+        const jsonUrl = adapter.getJsonUrl(id);
         
         // Construct original URL robustly
-        let originalUrl = href;
-        try {
-            originalUrl = new URL(href, BASE_URL + '/').href;
-        } catch (e) {
-            if (!href.startsWith('http')) {
-                originalUrl = `${BASE_URL}/${href.replace(/^\//, '')}`;
-            }
-        }
+        const originalUrl = resolveListingUrl(href, adapter);
 
         // Try to find a date
-        let updateDate: string | undefined;
-        
-        // Check 1: Immediate parent (e.g., <li>Title <span>Date</span></li>)
-        let contextText = link.parentElement?.textContent || "";
-        // Clean up excessive whitespace for regex matching
-        contextText = contextText.replace(/\s+/g, ' '); 
-        
-        let dateMatch = contextText.match(dateRegex1) || 
-                        contextText.match(dateRegex2) || 
-                        contextText.match(dateRegex3);
-
-        // Check 2: Grandparent if not found in parent
-        if (!dateMatch && link.parentElement?.parentElement) {
-             let grandParentText = link.parentElement.parentElement.textContent || "";
-             grandParentText = grandParentText.replace(/\s+/g, ' ');
-             
-             // Safety check: ensure we aren't scanning the entire body
-             if (grandParentText.length < 1000) {
-                 dateMatch = grandParentText.match(dateRegex1) || 
-                             grandParentText.match(dateRegex2) || 
-                             grandParentText.match(dateRegex3);
-             }
-        }
-        
-        if (dateMatch) {
-            updateDate = dateMatch[1];
-        }
+        const updateDate = adapter.extractDate(link);
+        const updatedAt = updateDate ? parseUpdateDate(updateDate, fetchedAt) : undefined;
 
         if (!uniqueSources.has(id)) {
           uniqueSources.set(id, {
@@ -162,7 +235,8 @@ export const parseHtmlContent = (html: string): ScrapeResult => {
             title,
             originalUrl,
             jsonUrl,
-            updateDate
+            updateDate,
+            updatedAt
           });
         }
       }
@@ -180,7 +254,8 @@ export const parseHtmlContent = (html: string): ScrapeResult => {
 
     return {
       success: true,
-      data: sources
+      data: sources,
+      pagination: extractPagination(doc, adapter)
     };
 
   } catch (error: any) {
@@ -190,4 +265,180 @@ export const parseHtmlContent = (html: string): ScrapeResult => {
       error: `Failed to parse HTML content: ${error.message}`
     };
   }
-};
\ No newline at end of file
+};
+
+// Combine several parsed pages into one result, keeping the first occurrence of each id
+export const mergeScrapeResults = (results: ScrapeResult[]): ScrapeResult => {
+  const uniqueSources = new Map<string, BookSource>();
+  const errors: string[] = [];
+
+  results.forEach(result => {
+    if (!result.success && result.error) {
+      errors.push(result.error);
+    }
+    result.data.forEach(source => {
+      if (!uniqueSources.has(source.id)) {
+        uniqueSources.set(source.id, source);
+      }
+    });
+  });
+
+  const sources = Array.from(uniqueSources.values());
+
+  if (sources.length === 0) {
+    return {
+      success: false,
+      data: [],
+      error: errors.join("; ") || "No sources found."
+    };
+  }
+
+  return {
+    success: true,
+    data: sources
+  };
+};
+
+// Past the last page the listing still answers, just without any source links (or with a 404).
+// Block and captcha pages fail validation instead, so they count as failures, not as the end.
+const isPastEnd = (result: ScrapeResult): boolean =>
+  result.success
+    ? result.data.length === 0
+    : !!result.diagnostics?.attempts.some(attempt => attempt.status === 404);
+
+// Failed pages in a row past the last loaded one before an open-ended crawl stops probing
+const MAX_TRAILING_FAILURES = 3;
+
+// Walk listing pages with a fixed number of workers. An empty page (or a 404) above every
+// page that loaded marks the end of the catalog. A page that fails to load is retried once
+// and otherwise reported, without dropping the pages after it.
+export const crawlBookSources = async (options: CrawlOptions): Promise<CrawlResult> => {
+  const { startPage, endPage, signal, onProgress, adapter = DEFAULT_ADAPTER } = options;
+  const concurrency = Math.max(1, options.concurrency);
+
+  const pageResults = new Map<number, ScrapeResult>();
+  const failedPages = new Map<number, string>();
+  const retryQueue: number[] = [];
+  const retried = new Set<number>();
+  let nextPage = startPage;
+  let limit = endPage ?? Infinity; // endPage, narrowed by the page count the listing reports
+  let reportedTotal = 0;           // Highest page count any listing page claimed
+  let highestLoaded = 0;
+  const pastEndPages = new Set<number>(); // Empty pages above every page that loaded so far
+  let lastPage = limit;
+
+  const updateLastPage = () => {
+    lastPage = Math.min(limit, Math.min(...pastEndPages) - 1);
+  };
+
+  const markFailed = (page: number, error: string) => {
+    failedPages.set(page, error);
+    if (!retried.has(page)) {
+      retried.add(page);
+      retryQueue.push(page);
+    }
+  };
+
+  const progress: CrawlProgress = {
+    pagesDone: 0,
+    pagesFailed: [],
+    activePages: [],
+    sourcesFound: 0,
+  };
+
+  // Only pages that will end up in the result count towards the total
+  const countSources = () => {
+    const seenIds = new Set<string>();
+    pageResults.forEach((result, page) => {
+      if (page <= lastPage) result.data.forEach(source => seenIds.add(source.id));
+    });
+    progress.sourcesFound = seenIds.size;
+  };
+
+  const report = () => {
+    onProgress?.({
+      ...progress,
+      pagesFailed: Array.from(failedPages.keys()).filter(page => page <= lastPage).sort((a, b) => a - b),
+      activePages: [...progress.activePages].sort((a, b) => a - b),
+      lastPage: Number.isFinite(lastPage) ? lastPage : undefined,
+    });
+  };
+
+  const takePage = (): number | undefined => {
+    const retry = retryQueue.shift();
+    if (retry !== undefined) return retry;
+    // Without a known end, a run of failures past the last loaded page is as far as we probe
+    const trailingFailures = Array.from(failedPages.keys()).filter(page => page > highestLoaded).length;
+    if (!Number.isFinite(lastPage) && trailingFailures >= MAX_TRAILING_FAILURES) return undefined;
+    return nextPage <= lastPage ? nextPage++ : undefined;
+  };
+
+  const worker = async () => {
+    while (!signal?.aborted) {
+      const page = takePage();
+      if (page === undefined) return;
+      if (page > lastPage) continue;
+      progress.activePages.push(page);
+      report();
+
+      // Pages fetched recently don't need another round trip
+      const cached = retried.has(page) ? null : await loadCachedBookSources(page, adapter);
+      const result = cached?.fresh ? cached.result : await fetchBookSources(page, signal, adapter);
+      progress.activePages = progress.activePages.filter(p => p !== page);
+      if (signal?.aborted) return;
+
+      if (!retried.has(page)) progress.pagesDone++;
+
+      if (isPastEnd(result) && page > highestLoaded && page > reportedTotal) {
+        failedPages.delete(page);
+        pastEndPages.add(page);
+      } else if (!result.success || result.data.length === 0) {
+        markFailed(page, result.error || 'No sources found');
+      } else {
+        failedPages.delete(page);
+        pageResults.set(page, result);
+        highestLoaded = Math.max(highestLoaded, page);
+        // A later page has sources, so empty pages before it weren't the end after all
+        pastEndPages.forEach(emptyPage => {
+          if (emptyPage > page) return;
+          pastEndPages.delete(emptyPage);
+          markFailed(emptyPage, 'No sources found');
+        });
+        if (result.pagination?.totalPages) {
+          // The listing tells us where it ends, so there's no need to probe past it
+          reportedTotal = Math.max(reportedTotal, result.pagination.totalPages);
+          limit = Math.min(limit, result.pagination.totalPages);
+        }
+      }
+      updateLastPage();
+      countSources();
+      report();
+    }
+  };
+
+  console.log(`Crawling from page ${startPage} to ${endPage ?? 'end'} with ${concurrency} workers...`);
+  await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+  const orderedResults = Array.from(pageResults.entries())
+    .filter(([page]) => page <= lastPage)
+    .sort(([a], [b]) => a - b)
+    .map(([, result]) => result);
+
+  const pagesFailed = Array.from(failedPages.entries())
+    .filter(([page]) => page <= lastPage)
+    .sort(([a], [b]) => a - b)
+    .map(([page, error]) => ({ page, error }));
+  const failureSummary = pagesFailed.map(({ page, error }) => `Page ${page}: ${error}`).join('; ');
+
+  const merged = mergeScrapeResults(orderedResults);
+
+  return {
+    ...merged,
+    error: merged.success
+      ? (failureSummary || undefined)
+      : `Crawl found no sources starting at Page ${startPage}. ${failureSummary || merged.error || ''}`.trim(),
+    pagesCrawled: orderedResults.length + pagesFailed.length,
+    cancelled: !!signal?.aborted,
+    pagesFailed,
+  };
+};
@@ -0,0 +1,273 @@
+import { pinyin } from 'pinyin-pro';
+import { BookSource, QueryTerm, SearchMatch, TextRange } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lower-cased title plus its pinyin forms, with offsets back into the title for highlighting
+interface SearchIndex {
+  title: string;
+  initials: string;         // One letter per title character
+  pinyin: string;           // Full syllables run together
+  pinyinToChar: number[];   // pinyin offset -> title offset
+  syllableStarts: Set<number>;
+}
+
+// What the parse worker sends back; Sets don't survive postMessage as cheaply as arrays
+export interface SerializedSearchIndex {
+  initials: string;
+  pinyin: string;
+  pinyinToChar: number[];
+  syllableStarts: number[];
+}
+
+const indexCache = new WeakMap<BookSource, SearchIndex>();
+
+// The pinyin conversion is the slow part, so this is what runs in the worker
+export const buildSearchIndex = (rawTitle: string): SerializedSearchIndex => {
+  const title = rawTitle.toLowerCase();
+  let syllables = pinyin(rawTitle, { toneType: 'none', type: 'array' }).map(s => s.toLowerCase());
+  // Surrogate pairs can throw the per-character alignment off; fall back to the raw characters
+  if (syllables.length !== title.length) syllables = title.split('');
+
+  let full = '';
+  const pinyinToChar: number[] = [];
+  const syllableStarts: number[] = [];
+  syllables.forEach((syllable, charIndex) => {
+    syllableStarts.push(full.length);
+    full += syllable;
+    for (let i = 0; i < syllable.length; i++) pinyinToChar.push(charIndex);
+  });
+
+  return {
+    initials: syllables.map(s => s.charAt(0) || ' ').join(''),
+    pinyin: full,
+    pinyinToChar,
+    syllableStarts,
+  };
+};
+
+export const primeSearchIndex = (source: BookSource, index: SerializedSearchIndex) => {
+  indexCache.set(source, { ...index, title: source.title.toLowerCase(), syllableStarts: new Set(index.syllableStarts) });
+};
+
+export const isSearchIndexed = (source: BookSource): boolean => indexCache.has(source);
+
+const getIndex = (source: BookSource): SearchIndex => {
+  if (!indexCache.has(source)) primeSearchIndex(source, buildSearchIndex(source.title));
+  return indexCache.get(source)!;
+};
+
+// Free-text terms are the only ones that read the pinyin index
+export const needsSearchIndex = (terms: QueryTerm[]): boolean => terms.some(term => term.kind === 'text');
+
+// Smallest edit distance between `pattern` and any substring of `text` (Sellers' algorithm).
+// Returns the distance and where the best match ends.
+const approximateSearch = (pattern: string, text: string): { distance: number; end: number } => {
+  let previous = Array.from({ length: pattern.length + 1 }, (_, i) => i);
+  let best = { distance: pattern.length, end: 0 };
+  for (let j = 1; j <= text.length; j++) {
+    const current = [0];
+    for (let i = 1; i <= pattern.length; i++) {
+      const cost = pattern[i - 1] === text[j - 1] ? 0 : 1;
+      current[i] = Math.min(previous[i] + 1, current[i - 1] + 1, previous[i - 1] + cost);
+    }
+    if (current[pattern.length] < best.distance) best = { distance: current[pattern.length], end: j };
+    previous = current;
+  }
+  return best;
+};
+
+const maxTypos = (term: string): number => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Score one free-text term against a source, best strategy first
+const matchText = (
+  source: BookSource,
+  value: string,
+  options: { phrase: boolean; fuzzy: boolean }
+): SearchMatch | null => {
+  const index = getIndex(source);
+  const at = index.title.indexOf(value);
+  if (at !== -1) return { score: at === 0 ? 120 : 100, highlights: [[at, at + value.length]] };
+  if (options.phrase) return null;
+
+  if (source.id === value) return { score: 90, highlights: [] };
+  if (source.id.startsWith(value)) return { score: 60, highlights: [] };
+
+  if (/^[a-z]+$/.test(value)) {
+    const initialsAt = index.initials.indexOf(value);
+    if (initialsAt !== -1) return { score: 70, highlights: [[initialsAt, initialsAt + value.length]] };
+
+    // Only accept full-pinyin hits that start on a syllable, so "iqu" doesn't match 笔趣
+    for (let from = index.pinyin.indexOf(value); from !== -1; from = index.pinyin.indexOf(value, from + 1)) {
+      if (index.syllableStarts.has(from)) {
+        const start = index.pinyinToChar[from];
+        const end = index.pinyinToChar[from + value.length - 1] + 1;
+        return { score: 65, highlights: [[start, end]] };
+      }
+    }
+  }
+
+  // Detail-page descriptions count, but below any hit on the title itself
+  if (source.description?.toLowerCase().includes(value)) return { score: 10, highlights: [] };
+
+  const typos = maxTypos(value);
+  if (!options.fuzzy || typos === 0) return null;
+
+  const inTitle = approximateSearch(value, index.title);
+  if (inTitle.distance <= typos) {
+    const start = Math.max(0, inTitle.end - value.length);
+    return { score: 40 - 10 * inTitle.distance, highlights: [[start, inTitle.end]] };
+  }
+  if (/^[a-z]+$/.test(value)) {
+    const inPinyin = approximateSearch(value, index.pinyin);
+    if (inPinyin.distance <= typos) {
+      const start = index.pinyinToChar[Math.max(0, inPinyin.end - value.length)];
+      const end = index.pinyinToChar[inPinyin.end - 1] + 1;
+      return { score: 30 - 10 * inPinyin.distance, highlights: [[start, end]] };
+    }
+  }
+  return null;
+};
+
+const parseNumberRange = (raw: string): { min: number; max: number } | null => {
+  const range = raw.match(/^(\d*)\.\.(\d*)$/);
+  if (range && (range[1] || range[2])) {
+    return { min: range[1] ? Number(range[1]) : -Infinity, max: range[2] ? Number(range[2]) : Infinity };
+  }
+  const compare = raw.match(/^(>=|<=|>|<)?(\d+)$/);
+  if (!compare) return null;
+  const n = Number(compare[2]);
+  switch (compare[1]) {
+    case '>': return { min: n + 1, max: Infinity };
+    case '>=': return { min: n, max: Infinity };
+    case '<': return { min: -Infinity, max: n - 1 };
+    case '<=': return { min: -Infinity, max: n };
+    default: return { min: n, max: n };
+  }
+};
+
+// Local midnight of a YYYY-MM-DD (or / .) date
+const parseDay = (raw: string): number | null => {
+  const match = raw.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (!match) return null;
+  const time = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const parseDateRange = (raw: string): { from: number; to: number } | null => {
+  const range = raw.match(/^([^.]*)\.\.([^.]*)$/);
+  if (range) {
+    const from = range[1] ? parseDay(range[1]) : -Infinity;
+    const to = range[2] ? parseDay(range[2]) : Infinity;
+    if (from === null || to === null || (!range[1] && !range[2])) return null;
+    return { from, to: Number.isFinite(to) ? to + DAY_MS : to };
+  }
+  const compare = raw.match(/^(>=|<=|>|<)?(.+)$/);
+  const day = compare ? parseDay(compare[2]) : null;
+  if (!compare || day === null) return null;
+  switch (compare[1]) {
+    case '>': return { from: day + DAY_MS, to: Infinity };
+    case '>=': return { from: day, to: Infinity };
+    case '<': return { from: -Infinity, to: day };
+    case '<=': return { from: -Infinity, to: day + DAY_MS };
+    default: return { from: day, to: day + DAY_MS };
+  }
+};
+
+// Query field -> BookSource counter filled in from detail pages
+const COUNT_FIELDS: Record<string, 'downloads' | 'likes' | 'sourceCount'> = {
+  downloads: 'downloads',
+  likes: 'likes',
+  sources: 'sourceCount',
+};
+
+// Splits a query like `bqg -漫画 "免费 小说" id:1000..2000 date:>2026-10-01 tag:玄幻`.
+// Detail fields: `downloads:>100`, `likes:10..`, `sources:>=20`, `by:uploader`.
+// Unknown or malformed fields fall back to plain text so nothing the user types is dropped.
+export const parseQuery = (query: string): QueryTerm[] => {
+  const terms: QueryTerm[] = [];
+  const tokenPattern = /([-!])?(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(query)) !== null) {
+    if (match[0] === '') {
+      tokenPattern.lastIndex++;
+      continue;
+    }
+    const [raw, sign, field, quoted, bare] = match;
+    const negate = !!sign && raw.length > 1;
+    const phrase = quoted !== undefined;
+    const value = (phrase ? quoted : bare ?? '').trim();
+    const fieldName = field?.toLowerCase();
+
+    if (fieldName === 'id') {
+      const range = parseNumberRange(value);
+      if (range) { terms.push({ kind: 'id', ...range, negate }); continue; }
+    } else if (fieldName === 'date') {
+      const range = parseDateRange(value);
+      if (range) { terms.push({ kind: 'date', ...range, negate }); continue; }
+    } else if (fieldName === 'tag' && value) {
+      terms.push({ kind: 'tag', value: value.toLowerCase(), negate });
+      continue;
+    } else if (fieldName && COUNT_FIELDS[fieldName]) {
+      const range = parseNumberRange(value);
+      if (range) { terms.push({ kind: 'count', field: COUNT_FIELDS[fieldName], ...range, negate }); continue; }
+    } else if (fieldName === 'by' && value) {
+      terms.push({ kind: 'uploader', value: value.toLowerCase(), negate });
+      continue;
+    }
+
+    const text = (negate ? raw.slice(1) : raw).replace(/^"|"$/g, '').trim().toLowerCase();
+    if (text) terms.push({ kind: 'text', value: phrase && !field ? value.toLowerCase() : text, phrase: phrase && !field, negate });
+  }
+  return terms;
+};
+
+// True when the query asks for relevance ranking (has at least one positive text term)
+export const hasRankedTerms = (terms: QueryTerm[]): boolean =>
+  terms.some(term => term.kind === 'text' && !term.negate);
+
+const mergeRanges = (ranges: TextRange[]): TextRange[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: TextRange[] = [];
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+  });
+  return merged;
+};
+
+// All terms must hold. Returns the relevance score and title ranges to highlight, or null.
+export const matchSource = (source: BookSource, terms: QueryTerm[], tags: string[] = []): SearchMatch | null => {
+  let score = 0;
+  const highlights: TextRange[] = [];
+
+  for (const term of terms) {
+    let hit: boolean;
+    if (term.kind === 'text') {
+      // Negations skip fuzzy matching so a typo-tolerant hit doesn't hide sources unexpectedly
+      const textMatch = matchText(source, term.value, { phrase: term.phrase, fuzzy: !term.negate });
+      hit = !!textMatch;
+      if (textMatch && !term.negate) {
+        score += textMatch.score;
+        highlights.push(...textMatch.highlights);
+      }
+    } else if (term.kind === 'id') {
+      const id = Number(source.id);
+      hit = !Number.isNaN(id) && id >= term.min && id <= term.max;
+    } else if (term.kind === 'date') {
+      hit = source.updatedAt !== undefined && source.updatedAt >= term.from && source.updatedAt < term.to;
+    } else if (term.kind === 'count') {
+      const count = source[term.field];
+      hit = count !== undefined && count >= term.min && count <= term.max;
+    } else if (term.kind === 'uploader') {
+      hit = !!source.uploader?.toLowerCase().includes(term.value);
+    } else {
+      hit = tags.some(tag => tag.toLowerCase() === term.value);
+    }
+    if (hit === term.negate) return null;
+  }
+
+  return { score, highlights: mergeRanges(highlights) };
+};
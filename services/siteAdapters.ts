@@ -0,0 +1,158 @@
+import { LegadoContentKind, SiteAdapter, SourceDetails } from '../types';
+import {
+  TARGET_URL, BASE_URL, JSON_BASE_URL,
+  RSS_TARGET_URL, RSS_BASE_URL, RSS_JSON_BASE_URL,
+  REPLACE_TARGET_URL, REPLACE_BASE_URL, REPLACE_JSON_BASE_URL,
+} from '../constants';
+
+// Regex 1: YYYY-MM-DD
+const dateRegex1 = /(\d{4}-\d{2}-\d{2})/;
+// Regex 2: MM/DD HH:mm (e.g., 11/24 13:02)
+const dateRegex2 = /(\d{1,2}\/\d{1,2}\s+\d{1,2}:\d{1,2})/;
+// Regex 3: Relative time (e.g., 5天前, 18小时前, 30分钟前)
+const dateRegex3 = /(\d+\s*(?:天|小时|分钟|秒)前)/;
+
+const matchDate = (text: string) =>
+  text.match(dateRegex1) || text.match(dateRegex2) || text.match(dateRegex3);
+
+// Look for a date label next to the link: first in its parent, then its grandparent
+export const extractNearbyDate = (link: Element): string | undefined => {
+  // Check 1: Immediate parent (e.g., <li>Title <span>Date</span></li>)
+  // Clean up excessive whitespace for regex matching
+  const contextText = (link.parentElement?.textContent || "").replace(/\s+/g, ' ');
+  let dateMatch = matchDate(contextText);
+
+  // Check 2: Grandparent if not found in parent
+  if (!dateMatch && link.parentElement?.parentElement) {
+    const grandParentText = (link.parentElement.parentElement.textContent || "").replace(/\s+/g, ' ');
+    // Safety check: ensure we aren't scanning the entire body
+    if (grandParentText.length < 1000) {
+      dateMatch = matchDate(grandParentText);
+    }
+  }
+
+  return dateMatch ? dateMatch[1] : undefined;
+};
+
+// "1.2k", "3.4万" and "1,024" all show up as counters
+const parseCount = (raw?: string): number | undefined => {
+  if (!raw) return undefined;
+  const match = raw.replace(/,/g, '').match(/^(\d+(?:\.\d+)?)\s*([kKwW万千]?)$/);
+  if (!match) return undefined;
+  const multiplier = { k: 1e3, K: 1e3, '千': 1e3, w: 1e4, W: 1e4, '万': 1e4 }[match[2]] ?? 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+};
+
+const COUNT = '(\\d+(?:[,.]\\d+)*\\s*[kKwW万千]?)';
+const UPLOADER_PATTERN = /(?:上传者|上传人|发布者|分享者|作者|用户)\s*[:：]\s*([^\s|｜/]{1,30})/;
+const SOURCE_COUNT_PATTERNS = [
+  /(?:书源|订阅源|规则|源)(?:数量|个数|数)\s*[:：]?\s*(\d+)/,
+  /共\s*(\d+)\s*(?:个|条)\s*(?:书源|订阅源|规则|源)/,
+];
+const DOWNLOADS_PATTERN = new RegExp(`(?:下载|导入)(?:量|次数|数)?\\s*[:：]?\\s*${COUNT}`);
+const LIKES_PATTERN = new RegExp(`(?:点赞|喜欢|收藏|赞)(?:数|量)?\\s*[:：]?\\s*${COUNT}`);
+const EXACT_TIME_PATTERN = /(?:(?:更新|发布|上传)(?:时间|于)?\s*[:：]?\s*)?(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/;
+const DESCRIPTION_PATTERN = /(?:简介|描述|说明|介绍)\s*[:：]\s*(.{1,300}?)(?=\s(?:上传|作者|下载|点赞|更新|发布)|$)/;
+
+// Pick labelled values ("上传者：xx", "下载：123", ...) out of a detail page. Anything
+// not found is left undefined rather than guessed.
+export const extractLabelledDetails = (doc: Pick<Document, 'querySelectorAll'>, fetchedAt: number): SourceDetails => {
+  const text = (doc.querySelectorAll('body')[0]?.textContent || '').replace(/\s+/g, ' ');
+  const metaDescription = doc.querySelectorAll('meta[name="description"]')[0]?.getAttribute('content')?.trim();
+
+  const time = text.match(EXACT_TIME_PATTERN);
+  const exactUpdatedAt = time
+    ? new Date(+time[1], +time[2] - 1, +time[3], +time[4], +time[5], +(time[6] ?? 0)).getTime()
+    : undefined;
+  const sourceCount = SOURCE_COUNT_PATTERNS.map(pattern => text.match(pattern)?.[1]).find(Boolean);
+
+  return {
+    uploader: text.match(UPLOADER_PATTERN)?.[1],
+    description: (text.match(DESCRIPTION_PATTERN)?.[1] ?? metaDescription)?.trim() || undefined,
+    sourceCount: sourceCount ? parseInt(sourceCount, 10) : undefined,
+    downloads: parseCount(text.match(DOWNLOADS_PATTERN)?.[1]),
+    likes: parseCount(text.match(LIKES_PATTERN)?.[1]),
+    exactUpdatedAt: exactUpdatedAt !== undefined && !Number.isNaN(exactUpdatedAt) ? exactUpdatedAt : undefined,
+    detailsFetchedAt: fetchedAt,
+  };
+};
+
+interface YckceoSection {
+  id: string;
+  name: string;
+  description: string;
+  contentKind: LegadoContentKind;
+  targetUrl: string;
+  baseUrl: string;
+  jsonBaseUrl: string;
+}
+
+// Every yckceo.sbs category shares the same layout: ?page=N listings linking to
+// content/id/N.html detail pages, with the raw JSON at json/id/N.json
+const createYckceoAdapter = (section: YckceoSection): SiteAdapter => {
+  // Regex to match content/id/xxxxx.html
+  const idRegex = /content\/id\/(\d+)\.html/;
+  const pageRegex = /[?&]page=(\d+)/;
+
+  return {
+    id: section.id,
+    name: section.name,
+    description: section.description,
+    contentKind: section.contentKind,
+    baseUrl: section.baseUrl,
+    getPageUrl: (page) => page === 1 ? section.targetUrl : `${section.targetUrl}?page=${page}`,
+    // Page 1 is also served from the bare directory URL
+    getFallbackPageUrls: (page) => page === 1 ? [section.baseUrl + "/"] : [],
+    // Too short to be a real index page, or missing the link pattern we need
+    isListingPage: (html) => !!html && html.length >= 500 && idRegex.test(html),
+    extractId: (href) => href.match(idRegex)?.[1] ?? null,
+    extractDate: extractNearbyDate,
+    // The first page is linked as the bare index.html, without ?page=1
+    extractPageNumber: (href) => {
+      const page = href.match(pageRegex)?.[1];
+      if (page) return parseInt(page, 10);
+      return /(^|\/)index\.html$/.test(href) ? 1 : null;
+    },
+    // Detail pages link to their own JSON download
+    isDetailPage: (html) => !!html && html.length >= 500 && /json\/id\/\d+\.json/.test(html),
+    extractDetails: extractLabelledDetails,
+    getJsonUrl: (id) => `${section.jsonBaseUrl}/${id}.json`,
+  };
+};
+
+export const BOOK_SOURCE_ADAPTER = createYckceoAdapter({
+  id: 'yckceo-shuyuan',
+  name: 'Book Sources',
+  description: 'yckceo.sbs book sources (书源)',
+  contentKind: 'bookSource',
+  targetUrl: TARGET_URL,
+  baseUrl: BASE_URL,
+  jsonBaseUrl: JSON_BASE_URL,
+});
+
+export const RSS_SOURCE_ADAPTER = createYckceoAdapter({
+  id: 'yckceo-dingyue',
+  name: 'Subscriptions',
+  description: 'yckceo.sbs subscription / RSS sources (订阅源)',
+  contentKind: 'rssSource',
+  targetUrl: RSS_TARGET_URL,
+  baseUrl: RSS_BASE_URL,
+  jsonBaseUrl: RSS_JSON_BASE_URL,
+});
+
+export const REPLACE_RULE_ADAPTER = createYckceoAdapter({
+  id: 'yckceo-tihuan',
+  name: 'Replace Rules',
+  description: 'yckceo.sbs text replace rules (替换规则)',
+  contentKind: 'replaceRule',
+  targetUrl: REPLACE_TARGET_URL,
+  baseUrl: REPLACE_BASE_URL,
+  jsonBaseUrl: REPLACE_JSON_BASE_URL,
+});
+
+export const SITE_ADAPTERS: SiteAdapter[] = [BOOK_SOURCE_ADAPTER, RSS_SOURCE_ADAPTER, REPLACE_RULE_ADAPTER];
+
+export const DEFAULT_ADAPTER = BOOK_SOURCE_ADAPTER;
+
+export const getAdapter = (id: string): SiteAdapter =>
+  SITE_ADAPTERS.find(adapter => adapter.id === id) ?? DEFAULT_ADAPTER;
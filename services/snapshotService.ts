@@ -0,0 +1,95 @@
+import { BookSource, ChangeKind, CrawlSnapshot, SnapshotDiff } from '../types';
+import { runRequest, SNAPSHOT_STORE } from './idb';
+import { getDatePrecision } from './dateParser';
+
+// Older snapshots per scope are pruned past this count
+const MAX_SNAPSHOTS_PER_SCOPE = 20;
+
+export const getCrawlScope = (adapterId: string, startPage: number, endPage?: number): string =>
+  `${adapterId} pages ${startPage}-${endPage ?? 'end'}`;
+
+// Relative labels roll over between crawls ("5天前" becomes "6天前"), so compare the
+// resolved timestamps and only count a move larger than what the labels can express
+const isDateChanged = (before: BookSource, after: BookSource): boolean => {
+  if (before.updatedAt === undefined || after.updatedAt === undefined) {
+    return before.updateDate !== after.updateDate;
+  }
+  const tolerance = Math.max(getDatePrecision(before.updateDate ?? ''), getDatePrecision(after.updateDate ?? ''));
+  return Math.abs(after.updatedAt - before.updatedAt) > tolerance;
+};
+
+export const diffSnapshots = (previous: CrawlSnapshot | undefined, current: CrawlSnapshot): SnapshotDiff => {
+  const diff: SnapshotDiff = {
+    previousTakenAt: previous?.takenAt,
+    takenAt: current.takenAt,
+    added: [],
+    updated: [],
+    removed: [],
+  };
+  // The first snapshot of a scope has no baseline, so nothing is marked as new
+  if (!previous) return diff;
+
+  const before = new Map(previous.sources.map(source => [source.id, source]));
+  const currentIds = new Set<string>();
+
+  current.sources.forEach(source => {
+    currentIds.add(source.id);
+    const old = before.get(source.id);
+    if (!old) {
+      diff.added.push(source);
+    } else if (old.title !== source.title || isDateChanged(old, source)) {
+      diff.updated.push({ before: old, after: source });
+    }
+  });
+
+  diff.removed = previous.sources.filter(source => !currentIds.has(source.id));
+  return diff;
+};
+
+// Per-source lookup (by jsonUrl) for card badges; removed sources aren't on screen so they're omitted
+export const getChangeMap = (diff: SnapshotDiff): Map<string, ChangeKind> => {
+  const changes = new Map<string, ChangeKind>();
+  diff.added.forEach(source => changes.set(source.jsonUrl, ChangeKind.NEW));
+  diff.updated.forEach(({ after }) => changes.set(after.jsonUrl, ChangeKind.UPDATED));
+  return changes;
+};
+
+// Oldest first
+export const listSnapshots = async (scope?: string): Promise<CrawlSnapshot[]> => {
+  try {
+    const all = await runRequest<CrawlSnapshot[]>(SNAPSHOT_STORE, 'readonly', store => store.getAll());
+    return all
+      .filter(snapshot => scope === undefined || snapshot.scope === scope)
+      .sort((a, b) => a.takenAt - b.takenAt);
+  } catch (error) {
+    console.warn("Snapshot read failed:", error);
+    return [];
+  }
+};
+
+// Save a completed crawl and return how it differs from the last crawl of the same scope
+export const recordSnapshot = async (scope: string, sources: BookSource[]): Promise<SnapshotDiff> => {
+  const snapshot: CrawlSnapshot = { scope, takenAt: Date.now(), sources };
+  const history = await listSnapshots(scope);
+  const diff = diffSnapshots(history[history.length - 1], snapshot);
+
+  try {
+    await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.add(snapshot));
+    const excess = history.length + 1 - MAX_SNAPSHOTS_PER_SCOPE;
+    for (const old of history.slice(0, Math.max(0, excess))) {
+      await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.delete(old.id!));
+    }
+  } catch (error) {
+    console.warn("Snapshot write failed:", error);
+  }
+
+  return diff;
+};
+
+export const clearSnapshots = async (): Promise<void> => {
+  try {
+    await runRequest(SNAPSHOT_STORE, 'readwrite', store => store.clear());
+  } catch (error) {
+    console.warn("Snapshot clear failed:", error);
+  }
+};
@@ -0,0 +1,41 @@
+// Run `task` over every item with at most `concurrency` in flight, preserving input order
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (!signal?.aborted && nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, concurrency), items.length);
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+};
+
+// Filter a long list in slices, yielding to the event loop between them so typing and
+// scrolling stay responsive. Resolves to null if `signal` aborts part way.
+export const filterInSlices = async <T>(
+  items: T[],
+  predicate: (item: T) => boolean,
+  signal?: AbortSignal,
+  sliceSize: number = 1000
+): Promise<T[] | null> => {
+  const kept: T[] = [];
+  for (let start = 0; start < items.length; start += sliceSize) {
+    if (start > 0) await new Promise(resolve => setTimeout(resolve, 0));
+    if (signal?.aborted) return null;
+    const end = Math.min(items.length, start + sliceSize);
+    for (let i = start; i < end; i++) {
+      if (predicate(items[i])) kept.push(items[i]);
+    }
+  }
+  return kept;
+};
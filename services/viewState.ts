@@ -0,0 +1,78 @@
+import { FetchMode, SortOrder, ViewState } from '../types';
+import { DEFAULT_ADAPTER } from './siteAdapters';
+
+// Larger selections are left out of the URL rather than producing links chat apps truncate
+const MAX_SHARED_SELECTION = 200;
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  mode: FetchMode.AUTO,
+  site: DEFAULT_ADAPTER.id,
+  page: 1,
+  search: '',
+  sort: SortOrder.DEFAULT,
+  withinDays: 0,
+  onlyNew: false,
+  workingOnly: false,
+  tags: [],
+  selected: [],
+  collection: '',
+};
+
+const parseEnum = <T extends string>(values: T[], raw: string | null, fallback: T): T => {
+  const upper = raw?.toUpperCase();
+  return values.find(value => value === upper) ?? fallback;
+};
+
+const parseList = (raw: string | null): string[] =>
+  raw ? raw.split(',').map(item => item.trim()).filter(Boolean) : [];
+
+// Missing or malformed parameters fall back to defaults, so any link opens something sensible
+export const parseViewState = (search: string): ViewState => {
+  const params = new URLSearchParams(search);
+  const page = parseInt(params.get('page') || '', 10);
+  const days = parseInt(params.get('days') || '', 10);
+  return {
+    mode: parseEnum(Object.values(FetchMode), params.get('mode'), DEFAULT_VIEW_STATE.mode),
+    site: params.get('site') || DEFAULT_VIEW_STATE.site,
+    page: page > 0 ? page : DEFAULT_VIEW_STATE.page,
+    search: params.get('q') ?? DEFAULT_VIEW_STATE.search,
+    sort: parseEnum(Object.values(SortOrder), params.get('sort'), DEFAULT_VIEW_STATE.sort),
+    withinDays: days > 0 ? days : DEFAULT_VIEW_STATE.withinDays,
+    onlyNew: params.get('new') === '1',
+    workingOnly: params.get('working') === '1',
+    tags: parseList(params.get('tags')),
+    selected: parseList(params.get('sel')),
+    collection: params.get('list') ?? DEFAULT_VIEW_STATE.collection,
+  };
+};
+
+// Only non-default values are written, keeping shared links short
+export const serializeViewState = (view: ViewState): string => {
+  const params = new URLSearchParams();
+  if (view.mode !== DEFAULT_VIEW_STATE.mode) params.set('mode', view.mode.toLowerCase());
+  if (view.site !== DEFAULT_VIEW_STATE.site) params.set('site', view.site);
+  if (view.mode === FetchMode.COLLECTION && view.collection) params.set('list', view.collection);
+  if (view.mode === FetchMode.AUTO && view.page !== DEFAULT_VIEW_STATE.page) params.set('page', String(view.page));
+  if (view.search) params.set('q', view.search);
+  if (view.sort !== DEFAULT_VIEW_STATE.sort) params.set('sort', view.sort.toLowerCase());
+  if (view.withinDays > 0) params.set('days', String(view.withinDays));
+  if (view.onlyNew) params.set('new', '1');
+  if (view.workingOnly) params.set('working', '1');
+  if (view.tags.length > 0) params.set('tags', view.tags.join(','));
+  if (view.selected.length > 0 && view.selected.length <= MAX_SHARED_SELECTION) params.set('sel', view.selected.join(','));
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+// Moving between pages, modes, sites or collections is navigation and gets its own history entry;
+// typing in the search box or toggling filters just updates the current one
+export const isNavigation = (from: ViewState, to: ViewState): boolean =>
+  from.mode !== to.mode || from.site !== to.site || from.page !== to.page || from.collection !== to.collection;
+
+export const readViewState = (): ViewState => {
+  try {
+    return parseViewState(window.location.search);
+  } catch (e) {
+    return DEFAULT_VIEW_STATE;
+  }
+};
@@ -0,0 +1,90 @@
+import { BookSource, ScrapeResult, SiteAdapter } from '../types';
+import { PageParser, parseHtmlContent } from './scraperService';
+import { SITE_ADAPTERS } from './siteAdapters';
+import { SerializedSearchIndex, buildSearchIndex, primeSearchIndex, isSearchIndexed } from './searchService';
+
+// Messages exchanged with parseWorker.ts. Adapters hold functions, so only their id crosses over.
+export type WorkerRequest =
+  | { id: number; type: 'parse'; html: string; fetchedAt: number; adapterId: string }
+  | { id: number; type: 'index'; titles: string[] };
+
+export type WorkerResponse =
+  | { id: number; type: 'parse'; result: ScrapeResult }
+  | { id: number; type: 'index'; indexes: SerializedSearchIndex[] };
+
+type Unsent<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  fallback: () => void; // Redo the work on the main thread if the worker dies
+}
+
+// undefined until first use; null once we know workers aren't available (Node, old browsers, load errors)
+let worker: Worker | null | undefined;
+const pending = new Map<number, PendingRequest>();
+let nextRequestId = 0;
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined') return (worker = null);
+  try {
+    worker = new Worker(new URL('./parseWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('Parse worker unavailable, parsing on the main thread:', error);
+    return (worker = null);
+  }
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    pending.get(event.data.id)?.resolve(event.data);
+    pending.delete(event.data.id);
+  };
+  worker.onerror = (event) => {
+    console.warn('Parse worker failed, parsing on the main thread:', event.message);
+    worker?.terminate();
+    worker = null;
+    pending.forEach(request => request.fallback());
+    pending.clear();
+  };
+  return worker;
+};
+
+const request = <T>(
+  message: Unsent<WorkerRequest>,
+  read: (response: WorkerResponse) => T,
+  inline: () => T
+): Promise<T> => {
+  const target = getWorker();
+  if (!target) return Promise.resolve(inline());
+  return new Promise(resolve => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve: response => resolve(read(response)), fallback: () => resolve(inline()) });
+    target.postMessage({ ...message, id } as WorkerRequest);
+  });
+};
+
+// PageParser for setPageParser(). Adapters the worker doesn't know about are parsed inline.
+export const parsePageInWorker: PageParser = (html: string, fetchedAt: number, adapter: SiteAdapter) => {
+  const inline = () => parseHtmlContent(html, fetchedAt, adapter);
+  if (!SITE_ADAPTERS.includes(adapter)) return Promise.resolve(inline());
+  return request(
+    { type: 'parse', html, fetchedAt, adapterId: adapter.id },
+    response => response.type === 'parse' ? response.result : inline(),
+    inline
+  );
+};
+
+let lastIndexed: { sources: BookSource[]; done: Promise<void> } | null = null;
+
+// Build pinyin search indexes for sources that don't have one yet. Repeated calls with
+// the same list share one request.
+export const indexSources = (sources: BookSource[]): Promise<void> => {
+  if (lastIndexed?.sources === sources) return lastIndexed.done;
+  const missing = sources.filter(source => !isSearchIndexed(source));
+  const inline = () => missing.map(source => buildSearchIndex(source.title));
+  const done = missing.length === 0 ? Promise.resolve() : request(
+    { type: 'index', titles: missing.map(source => source.title) },
+    response => response.type === 'index' ? response.indexes : inline(),
+    inline
+  ).then(indexes => missing.forEach((source, i) => primeSearchIndex(source, indexes[i])));
+  lastIndexed = { sources, done };
+  return done;
+};
@@ -1,15 +1,42 @@
+// Feedback on a copy button, reset to idle after a moment
+export type CopyState = 'idle' | 'copied' | 'failed';
+
 export interface BookSource {
   id: string;
   title: string;
   originalUrl: string;
   jsonUrl: string;
-  updateDate?: string;
+  updateDate?: string; // Raw text as shown on the listing page
+  updatedAt?: number;  // updateDate resolved to an epoch timestamp (ms)
+  // Read from the detail page at originalUrl (see detailService)
+  uploader?: string;
+  description?: string;
+  sourceCount?: number;    // Entries inside the JSON, as stated by the page
+  downloads?: number;
+  likes?: number;
+  exactUpdatedAt?: number; // Full timestamp, where the listing only shows a day or "5天前"
+  detailsFetchedAt?: number;
+}
+
+export type SourceDetails = Pick<BookSource,
+  'uploader' | 'description' | 'sourceCount' | 'downloads' | 'likes' | 'exactUpdatedAt' | 'detailsFetchedAt'>;
+
+// Pagination found on a listing page. Fields are absent when the page doesn't show them.
+export interface PageInfo {
+  totalPages?: number;
+  nextPage?: number;
+  prevPage?: number;
+  nextUrl?: string;
+  prevUrl?: string;
+  highestLinkedPage?: number; // Largest page number any pagination link points to
 }
 
 export interface ScrapeResult {
   success: boolean;
   data: BookSource[];
   error?: string;
+  pagination?: PageInfo;
+  diagnostics?: FetchDiagnostics; // Set when the result came from the network
 }
 
 export enum ScrapeStatus {
@@ -19,7 +46,433 @@ export enum ScrapeStatus {
   ERROR = 'ERROR',
 }
 
+export enum FetchMode {
+  AUTO = 'AUTO',
+  MANUAL = 'MANUAL',
+  CRAWL = 'CRAWL',
+  COLLECTION = 'COLLECTION', // Browse a saved collection instead of a listing
+}
+
+export enum SortOrder {
+  DEFAULT = 'DEFAULT', // Listing page order
+  NEWEST = 'NEWEST',
+  OLDEST = 'OLDEST',
+  // Need detail pages; sources without details sink to the bottom
+  DOWNLOADS = 'DOWNLOADS',
+  LIKES = 'LIKES',
+  SOURCE_COUNT = 'SOURCE_COUNT',
+  QUALITY = 'QUALITY', // Needs the source JSON; unscored sources sink to the bottom
+}
+
+export interface CrawlProgress {
+  pagesDone: number;
+  pagesFailed: number[]; // Failed to load so far; each is retried once
+  activePages: number[];
+  sourcesFound: number;
+  lastPage?: number; // Known once a page comes back empty
+}
+
+export interface CrawlOptions {
+  startPage: number;
+  endPage?: number; // Omit to crawl until a page yields no sources
+  concurrency: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: CrawlProgress) => void;
+  adapter?: SiteAdapter;
+}
+
+export interface CrawlResult extends ScrapeResult {
+  pagesCrawled: number;
+  cancelled: boolean;
+  pagesFailed: { page: number; error: string }[]; // Pages that still failed after a retry; their sources are missing
+}
+
 export interface AnalysisResult {
   summary: string;
   tags: string[];
-}
\ No newline at end of file
+}
+
+// A single entry from a Legado (阅读) book source JSON file.
+// Only the fields we read are typed; everything else is passed through untouched.
+export interface LegadoBookSource {
+  bookSourceName: string;
+  bookSourceUrl: string;
+  bookSourceGroup?: string;
+  bookSourceType?: number;
+  enabled?: boolean;
+  enabledExplore?: boolean;
+  lastUpdateTime?: number;
+  loginUrl?: string;
+  loginUi?: unknown;
+  jsLib?: string;
+  searchUrl?: string;
+  exploreUrl?: string;
+  ruleSearch?: Record<string, unknown>;
+  ruleExplore?: Record<string, unknown>;
+  ruleBookInfo?: Record<string, unknown>;
+  ruleToc?: Record<string, unknown>;
+  ruleContent?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface SourceJsonResult {
+  success: boolean;
+  entries: LegadoBookSource[];
+  // Entries without a bookSourceUrl: Legado can't import them, but lint still reports them
+  unusable?: LegadoBookSource[];
+  error?: string;
+}
+
+export enum MergeStrategy {
+  NEWEST = 'NEWEST', // Keep the entry with the highest lastUpdateTime
+  FIRST = 'FIRST',   // Keep whichever entry was seen first
+}
+
+export interface MergeCandidate {
+  sourceId: string; // BookSource.id the entry came from
+  bookSourceName: string;
+  lastUpdateTime?: number;
+}
+
+export interface MergeConflict {
+  bookSourceUrl: string;
+  kept: MergeCandidate;
+  dropped: MergeCandidate[];
+}
+
+export interface MergeReport {
+  merged: LegadoBookSource[];
+  totalEntries: number;
+  conflicts: MergeConflict[];
+  failed: { source: BookSource; error: string }[];
+}
+
+export enum InstallStatus {
+  INSTALLED = 'INSTALLED',               // Every entry is in the backup and no newer than it
+  UPDATE_AVAILABLE = 'UPDATE_AVAILABLE', // Some entry has a newer lastUpdateTime than the installed copy
+  NOT_INSTALLED = 'NOT_INSTALLED',       // Some entry is missing from the backup
+  ERROR = 'ERROR',                       // The source JSON itself couldn't be loaded
+}
+
+export interface EntryInstallState {
+  bookSourceName: string;
+  bookSourceUrl: string;
+  status: InstallStatus.INSTALLED | InstallStatus.UPDATE_AVAILABLE | InstallStatus.NOT_INSTALLED;
+  lastUpdateTime?: number;
+  installedUpdateTime?: number; // From the backup, when the entry is installed
+}
+
+export interface SourceInstallState {
+  status: InstallStatus;
+  comparedAt: number;
+  entries: EntryInstallState[];
+  error?: string;
+}
+
+export interface LegadoBackup {
+  fileName: string;
+  loadedAt: number;
+  entries: LegadoBookSource[];
+}
+
+export interface BackupComparison {
+  states: Map<string, SourceInstallState>; // Keyed by BookSource.jsonUrl
+  updates: LegadoBookSource[];   // Newer than the installed copy, one per bookSourceUrl
+  additions: LegadoBookSource[]; // Not in the backup at all, one per bookSourceUrl
+}
+
+export enum LintSeverity {
+  ERROR = 'ERROR',     // The entry can't work as written
+  WARNING = 'WARNING', // Works, but is risky or unreliable
+  INFO = 'INFO',       // Worth knowing before importing
+}
+
+export interface LintIssue {
+  code: 'missing-field' | 'invalid-regex' | 'insecure-url' | 'heavy-js' | 'disabled' | 'login-required';
+  severity: LintSeverity;
+  message: string;
+  field?: string; // Dotted rule path, e.g. ruleSearch.bookList
+}
+
+export interface EntryLint {
+  bookSourceName: string;
+  bookSourceUrl: string;
+  score: number; // 0-100
+  issues: LintIssue[];
+}
+
+export interface SourceQuality {
+  score?: number; // Average entry score; undefined when the JSON couldn't be loaded
+  checkedAt: number;
+  entries: EntryLint[];
+  error?: string;
+}
+
+export enum DuplicateReason {
+  IDENTICAL_JSON = 'IDENTICAL_JSON', // Same Legado entries, byte for byte after normalizing key order
+  URL_SUBSET = 'URL_SUBSET',         // Every bookSourceUrl of one file is also in the other
+  SIMILAR_TITLE = 'SIMILAR_TITLE',   // Listing titles differ only by punctuation, dates or versions
+}
+
+export interface DuplicateMember {
+  jsonUrl: string;     // Identifies the source; listing ids repeat across site adapters
+  entryCount?: number; // Entries in the source JSON, when it was fetched
+  freshness?: number;  // Newest of the listing date and the entries' lastUpdateTime
+  coveredBy: string[]; // Members with identical JSON or a superset of its bookSourceUrls; it's only redundant next to these
+}
+
+export interface DuplicateCluster {
+  id: string;
+  members: DuplicateMember[];
+  reasons: DuplicateReason[];
+  keepUrl: string; // jsonUrl of the recommended (or user-picked) source to keep
+  reviewOnly: boolean; // Matched by title alone, so nothing in it is skipped automatically
+}
+
+export interface DuplicateReport {
+  clusters: DuplicateCluster[];
+  checkedAt: number;
+  failed: number; // Sources whose JSON couldn't be loaded; compared by title only
+}
+
+export enum ProxyAdapter {
+  RAW = 'RAW',                       // Response body is the target content
+  ALLORIGINS_JSON = 'ALLORIGINS_JSON', // Response is { contents: "..." }
+}
+
+export interface ProxyConfig {
+  id: string;
+  name: string;
+  // Request URL with a {url} (raw) or {encodedUrl} placeholder for the target
+  template: string;
+  adapter: ProxyAdapter;
+  timeoutMs: number;
+  enabled: boolean;
+  builtIn?: boolean;
+}
+
+export interface ProxyStats {
+  successes: number;
+  failures: number;
+  totalLatencyMs: number; // Summed over successful requests only
+  lastError?: string;
+  lastUsedAt?: number;
+}
+
+export interface CacheEntry<T> {
+  key: string;
+  kind: 'page' | 'json' | 'detail';
+  value: T;
+  storedAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  pages: number;
+  jsonFiles: number;
+  details: number;
+  bytes: number; // Approximate, from the serialized size of each value
+}
+
+export enum ChangeKind {
+  NEW = 'NEW',
+  UPDATED = 'UPDATED',
+  REMOVED = 'REMOVED',
+}
+
+export interface CrawlSnapshot {
+  id?: number; // Assigned by IndexedDB
+  scope: string; // Page range the crawl covered; only snapshots of the same scope are compared
+  takenAt: number;
+  sources: BookSource[];
+}
+
+export interface SnapshotDiff {
+  previousTakenAt?: number; // Undefined when there was nothing to compare against
+  takenAt: number;
+  added: BookSource[];
+  updated: { before: BookSource; after: BookSource }[];
+  removed: BookSource[];
+}
+
+export interface ProbeResult {
+  url: string;
+  ok: boolean;
+  status?: number; // HTTP status of the target site, when the proxy reports it
+  latencyMs: number;
+  error?: string;
+  via: string; // Proxy name, or "direct"
+}
+
+export enum HealthStatus {
+  HEALTHY = 'HEALTHY', // Every contained site responded
+  PARTIAL = 'PARTIAL', // Some contained sites responded
+  DEAD = 'DEAD',       // No contained site responded
+  ERROR = 'ERROR',     // The source JSON itself couldn't be loaded
+}
+
+export interface EntryHealth {
+  bookSourceName: string;
+  bookSourceUrl: string;
+  site: ProbeResult;
+  search?: ProbeResult;
+}
+
+export interface SourceHealth {
+  status: HealthStatus;
+  checkedAt: number;
+  entries: EntryHealth[];
+  error?: string;
+}
+
+export interface HealthCheckOptions {
+  keyword?: string; // When set, each entry's searchUrl is also requested
+  direct: boolean;  // Skip the proxies, e.g. for a local mock site with CORS enabled
+  timeoutMs: number;
+  concurrency: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// What the JSON behind a listing entry contains, in Legado's own terms
+export type LegadoContentKind = 'bookSource' | 'rssSource' | 'replaceRule';
+
+// Describes how to scrape one listing site (or one category of a site)
+export interface SiteAdapter {
+  id: string;
+  name: string;
+  description: string;
+  contentKind: LegadoContentKind;
+  baseUrl: string; // Relative links on the listing resolve against this
+  getPageUrl: (page: number) => string;
+  getFallbackPageUrls?: (page: number) => string[]; // Tried if getPageUrl fails
+  isListingPage: (html: string) => boolean; // Cheap check before a full parse
+  extractId: (href: string) => string | null;
+  extractDate: (link: Element) => string | undefined;
+  extractPageNumber: (href: string) => number | null; // Which listing page a pagination link points to
+  isDetailPage: (html: string) => boolean;
+  extractDetails: (doc: Pick<Document, 'querySelectorAll'>, fetchedAt: number) => SourceDetails;
+  getJsonUrl: (id: string) => string;
+}
+
+export enum ExportFormat {
+  CSV = 'CSV',
+  MARKDOWN = 'MARKDOWN',
+  JSON = 'JSON',
+  URLS = 'URLS',
+}
+
+export interface SourceClassification {
+  tags: string[];
+  confidence: number; // 0-1, as reported by the model
+  title: string;      // Title that was classified; a changed title invalidates the result
+  classifier: string; // Provider and model that produced it; switching either invalidates the result
+  classifiedAt: number;
+}
+
+// One row of a classification batch, as returned by the model
+export interface ClassifiedTitle {
+  id: string;
+  tags: string[];
+  confidence: number;
+}
+
+export enum AiProviderId {
+  GEMINI = 'GEMINI',
+  OPENAI_COMPATIBLE = 'OPENAI_COMPATIBLE', // OpenAI, llama.cpp server, Ollama, LM Studio...
+  KEYWORD = 'KEYWORD',                     // Offline keyword rules, no network
+}
+
+export interface AiSettings {
+  provider: AiProviderId;
+  model: string;
+  apiKey: string;
+  baseUrl: string; // Only used by OPENAI_COMPATIBLE
+}
+
+// What every backend must implement. Raw outputs are validated by aiService.
+export interface AiProvider {
+  isConfigured: () => boolean;
+  analyze: (titles: string[]) => Promise<unknown>;
+  classify: (items: { id: string; title: string }[]) => Promise<unknown>;
+}
+
+// [start, end) character offsets into a title
+export type TextRange = [number, number];
+
+export type QueryTerm =
+  | { kind: 'text'; value: string; phrase: boolean; negate: boolean }
+  | { kind: 'id'; min: number; max: number; negate: boolean }
+  | { kind: 'date'; from: number; to: number; negate: boolean } // [from, to) in ms
+  | { kind: 'tag'; value: string; negate: boolean }
+  | { kind: 'count'; field: 'downloads' | 'likes' | 'sourceCount'; min: number; max: number; negate: boolean }
+  | { kind: 'uploader'; value: string; negate: boolean };
+
+export interface SearchMatch {
+  score: number;
+  highlights: TextRange[];
+}
+
+// The shareable part of the UI state, mirrored in the address bar
+export interface ViewState {
+  mode: FetchMode;
+  site: string;
+  page: number;
+  search: string;
+  sort: SortOrder;
+  withinDays: number;
+  onlyNew: boolean;
+  workingOnly: boolean;
+  tags: string[];
+  selected: string[];
+  collection: string;
+}
+
+// A named, user-curated list of sources. Sources are stored whole so a collection
+// can be browsed without refetching the listing pages they came from.
+export interface SourceCollection {
+  id: string;
+  name: string;
+  sources: BookSource[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// File format for sharing collections between browsers
+export interface CollectionFile {
+  type: 'bse-collections';
+  version: 1;
+  exportedAt: number;
+  collections: SourceCollection[];
+}
+
+export enum FetchFailureReason {
+  NETWORK = 'NETWORK',                 // Proxy unreachable, DNS, CORS, connection reset
+  TIMEOUT = 'TIMEOUT',
+  HTTP_STATUS = 'HTTP_STATUS',         // Non-OK status from the proxy or the target
+  INVALID_CONTENT = 'INVALID_CONTENT', // Body rejected by the content validator
+  PARSE_ERROR = 'PARSE_ERROR',         // Fetched fine but nothing usable could be parsed
+  CANCELLED = 'CANCELLED',             // Lost a race or the caller aborted
+}
+
+// One request through one proxy (or one parse step) in a fetch's timeline
+export interface FetchAttempt {
+  targetUrl: string;
+  requestUrl: string;
+  via: string; // Proxy name, 'direct' or 'parser'
+  round: number; // 0 for the first pass, then 1, 2... for backoff retries
+  startedAt: number;
+  durationMs: number;
+  ok: boolean;
+  status?: number;
+  reason?: FetchFailureReason;
+  message?: string;
+}
+
+export interface FetchDiagnostics {
+  startedAt: number;
+  durationMs: number;
+  ok: boolean;
+  reason?: FetchFailureReason; // Most significant failure when !ok
+  attempts: FetchAttempt[];
+}